@@ -75,7 +75,7 @@ async function main() {
         ]),
         isActive: true,
         isFeatured: true,
-        downloadUrl: '/downloads/mlbb-pro-hack.zip',
+        downloadUrl: 'mlbb-pro-hack.zip',
         version: '2.1.5',
         compatibility: JSON.stringify(['Android 7+', 'iOS 12+']),
       },
@@ -108,7 +108,7 @@ async function main() {
         ]),
         isActive: true,
         isFeatured: true,
-        downloadUrl: '/downloads/pubgm-elite-esp.zip',
+        downloadUrl: 'pubgm-elite-esp.zip',
         version: '3.2.1',
         compatibility: JSON.stringify(['Android 8+', 'iOS 13+']),
       },
@@ -140,7 +140,7 @@ async function main() {
         ]),
         isActive: true,
         isFeatured: true,
-        downloadUrl: '/downloads/dfm-premium-mod.zip',
+        downloadUrl: 'dfm-premium-mod.zip',
         version: '1.8.3',
         compatibility: JSON.stringify(['Android 6+']),
       },
@@ -367,6 +367,40 @@ async function main() {
         isActive: true
       }
     }),
+    prisma.emailTemplate.upsert({
+      where: { key: 'order_cancelled' },
+      update: {},
+      create: {
+        key: 'order_cancelled',
+        name: 'Order Cancelled',
+        subject: 'Pesanan Dibatalkan',
+        htmlContent: `
+          <h2>Pesanan Dibatalkan</h2>
+          <p>Halo {{userName}},</p>
+          <p>{{message}}</p>
+          <p>Silakan hubungi customer service jika ada pertanyaan.</p>
+        `,
+        textContent: 'Pesanan Anda telah dibatalkan.',
+        isActive: true
+      }
+    }),
+    prisma.emailTemplate.upsert({
+      where: { key: 'order_refunded' },
+      update: {},
+      create: {
+        key: 'order_refunded',
+        name: 'Order Refunded',
+        subject: 'Pengembalian Dana Diproses',
+        htmlContent: `
+          <h2>Pengembalian Dana</h2>
+          <p>Halo {{userName}},</p>
+          <p>{{message}}</p>
+          <p>Lisensi untuk produk yang dikembalikan telah dinonaktifkan.</p>
+        `,
+        textContent: 'Pengembalian dana untuk pesanan Anda telah diproses.',
+        isActive: true
+      }
+    }),
     prisma.emailTemplate.upsert({
       where: { key: 'welcome' },
       update: {},
@@ -0,0 +1,15 @@
+import { requireAdmin } from '@/lib/auth/admin-protection'
+import { AdminLicenseDetailPage } from '@/components/admin/admin-license-detail-page'
+
+interface LicenseDetailPageProps {
+  params: {
+    licenseId: string
+  }
+}
+
+export default async function LicenseDetailPage({ params }: LicenseDetailPageProps) {
+  // Require admin authentication
+  const user = await requireAdmin()
+
+  return <AdminLicenseDetailPage user={user} licenseId={params.licenseId} />
+}
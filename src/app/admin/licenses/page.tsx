@@ -0,0 +1,9 @@
+import { requireAdmin } from '@/lib/auth/admin-protection'
+import { AdminLicensesPage } from '@/components/admin/admin-licenses-page'
+
+export default async function LicensesPage() {
+  // Require admin authentication
+  const user = await requireAdmin()
+
+  return <AdminLicensesPage user={user} />
+}
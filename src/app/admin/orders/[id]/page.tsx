@@ -0,0 +1,15 @@
+import { requireAdmin } from '@/lib/auth/admin-protection'
+import { AdminOrderDetailPage } from '@/components/admin/admin-order-detail-page'
+
+interface OrderDetailPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function OrderDetailPage({ params }: OrderDetailPageProps) {
+  // Require admin authentication
+  const user = await requireAdmin()
+
+  return <AdminOrderDetailPage user={user} orderId={params.id} />
+}
@@ -0,0 +1,15 @@
+import { requireAdmin } from '@/lib/auth/admin-protection'
+import { AdminProductReleasesPage } from '@/components/admin/admin-product-releases-page'
+
+interface ProductReleasesPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function ProductReleasesPage({ params }: ProductReleasesPageProps) {
+  // Require admin authentication
+  const user = await requireAdmin()
+
+  return <AdminProductReleasesPage user={user} productId={params.id} />
+}
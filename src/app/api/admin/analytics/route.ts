@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdminAPI } from '@/lib/auth/admin-protection'
 import { prisma } from '@/lib/db/prisma'
+import { REVENUE_ORDER_STATUSES } from '@/lib/orders/order-status'
+import { leaseManager } from '@/lib/license/lease-manager'
 
 // Simple rate limiting implementation
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
@@ -62,7 +64,8 @@ export async function GET(request: NextRequest) {
       recentOrders,
       topProducts,
       userGrowthData,
-      orderStatusDistribution
+      orderStatusDistribution,
+      activeSessions
     ] = await Promise.all([
       // Total counts
       prisma.user.count(),
@@ -70,7 +73,7 @@ export async function GET(request: NextRequest) {
       prisma.order.count(),
       prisma.order.aggregate({
         _sum: { total: true },
-        where: { status: 'COMPLETED' }
+        where: { status: { in: REVENUE_ORDER_STATUSES } }
       }),
 
       // New users
@@ -99,21 +102,21 @@ export async function GET(request: NextRequest) {
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfToday }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfWeek }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfMonth }
         }
       }),
@@ -184,7 +187,10 @@ export async function GET(request: NextRequest) {
       prisma.order.groupBy({
         by: ['status'],
         _count: { status: true }
-      })
+      }),
+
+      // Live license sessions (leases)
+      leaseManager.getActiveSessionStats()
     ])
 
     // Get product details for top products
@@ -264,6 +270,8 @@ export async function GET(request: NextRequest) {
       },
 
       topProducts: topProductsWithDetails,
+
+      activeSessions,
       
       charts: {
         userGrowth: userGrowthData,
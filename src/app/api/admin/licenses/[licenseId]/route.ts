@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/auth-options'
 import { prisma } from '@/lib/db/prisma'
 import { licenseManager } from '@/lib/license/license-manager'
+import { sharingAnalyzer } from '@/lib/license/sharing-analyzer'
 import { z } from 'zod'
 
 // Get license details (admin only)
@@ -34,8 +35,9 @@ export async function GET(
 }
 
 const updateLicenseSchema = z.object({
-  action: z.enum(['revoke', 'extend', 'activate']),
+  action: z.enum(['revoke', 'extend', 'activate', 'suspend', 'dismiss_flags', 'transfer']),
   reason: z.string().optional(),
+  userId: z.string().optional(),
   extensionDays: z.number().int().min(1).optional()
 })
 
@@ -51,7 +53,8 @@ export async function PATCH(
     }
 
     const body = await request.json()
-    const { action, reason, extensionDays } = updateLicenseSchema.parse(body)
+    const { action, reason, extensionDays, userId } = updateLicenseSchema.parse(body)
+    const actor = { type: 'ADMIN' as const, id: session.user.id }
 
     // Get license details for logging
     const license = await prisma.license.findUnique({
@@ -71,7 +74,7 @@ export async function PATCH(
 
     switch (action) {
       case 'revoke':
-        success = await licenseManager.revokeLicense(params.licenseId, reason)
+        success = await licenseManager.revokeLicense(params.licenseId, reason, actor)
         message = success ? 'License revoked successfully' : 'Failed to revoke license'
         
         if (success) {
@@ -92,8 +95,15 @@ export async function PATCH(
             { status: 400 }
           )
         }
+
+        if (!license.expiresAt) {
+          return NextResponse.json(
+            { error: 'Lifetime licenses cannot be extended' },
+            { status: 400 }
+          )
+        }
         
-        success = await licenseManager.extendLicense(params.licenseId, extensionDays)
+        success = await licenseManager.extendLicense(params.licenseId, extensionDays, { actor, reason })
         message = success 
           ? `License extended by ${extensionDays} days` 
           : 'Failed to extend license'
@@ -109,26 +119,87 @@ export async function PATCH(
         }
         break
 
-      case 'activate':
-        await prisma.license.update({
-          where: { id: params.licenseId },
-          data: { 
-            status: 'ACTIVE',
-            revokedAt: null,
-            revocationReason: null
-          }
-        })
+      case 'suspend':
+        success = await licenseManager.suspendLicense(params.licenseId, reason, actor)
+        message = success ? 'License suspended successfully' : 'Failed to suspend license'
+
+        if (success) {
+          // Suspending settles any sharing flags raised for the license
+          await sharingAnalyzer.resolveFlags(params.licenseId, 'SUSPENDED', session.user.id)
+
+          await prisma.securityLog.create({
+            data: {
+              userId: session.user.id,
+              action: 'LICENSE_SUSPENDED',
+              details: `License ${license.licenseKey} suspended. Reason: ${reason || 'No reason provided'}`,
+            }
+          })
+        }
+        break
+
+      case 'dismiss_flags': {
+        const dismissed = await sharingAnalyzer.resolveFlags(params.licenseId, 'DISMISSED', session.user.id)
         success = true
-        message = 'License activated successfully'
-        
+        message = `${dismissed} sharing flag${dismissed !== 1 ? 's' : ''} dismissed`
+
         await prisma.securityLog.create({
           data: {
             userId: session.user.id,
-            action: 'LICENSE_ACTIVATED',
-            details: `License ${license.licenseKey} activated`,
+            action: 'LICENSE_SHARING_FLAGS_DISMISSED',
+            details: `Sharing flags dismissed for license ${license.licenseKey}. Reason: ${reason || 'No reason provided'}`,
           }
         })
         break
+      }
+
+      case 'activate':
+        success = await licenseManager.reactivateLicense(params.licenseId, actor)
+        message = success ? 'License activated successfully' : 'Failed to activate license'
+        
+        if (success) {
+          await prisma.securityLog.create({
+            data: {
+              userId: session.user.id,
+              action: 'LICENSE_ACTIVATED',
+              details: `License ${license.licenseKey} activated`,
+            }
+          })
+        }
+        break
+
+      case 'transfer': {
+        if (!userId) {
+          return NextResponse.json(
+            { error: 'Target user required for transfer action' },
+            { status: 400 }
+          )
+        }
+
+        const recipient = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { email: true }
+        })
+
+        if (!recipient) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        success = await licenseManager.transferLicense(params.licenseId, userId, actor)
+        message = success
+          ? `License transferred to ${recipient.email}`
+          : 'Failed to transfer license'
+
+        if (success) {
+          await prisma.securityLog.create({
+            data: {
+              userId: session.user.id,
+              action: 'LICENSE_TRANSFERRED',
+              details: `License ${license.licenseKey} transferred from ${license.user.email} to ${recipient.email}`,
+            }
+          })
+        }
+        break
+      }
     }
 
     if (success) {
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/auth-options'
+import { prisma } from '@/lib/db/prisma'
+import { licenseManager } from '@/lib/license/license-manager'
+import { sharingAnalyzer } from '@/lib/license/sharing-analyzer'
+import { z } from 'zod'
+
+const bulkActionSchema = z.object({
+  licenseIds: z.array(z.string().min(1)).min(1, 'Select at least one license').max(100, 'Too many licenses selected'),
+  action: z.enum(['revoke', 'suspend', 'activate', 'extend']),
+  reason: z.string().optional(),
+  extensionDays: z.number().int().min(1).optional()
+})
+
+// Apply one action to several licenses (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { licenseIds, action, reason, extensionDays } = bulkActionSchema.parse(body)
+    const actor = { type: 'ADMIN' as const, id: session.user.id }
+
+    if (action === 'extend' && !extensionDays) {
+      return NextResponse.json(
+        { error: 'Extension days required for extend action' },
+        { status: 400 }
+      )
+    }
+
+    const licenses = await prisma.license.findMany({
+      where: { id: { in: licenseIds } },
+      select: { id: true, licenseKey: true, expiresAt: true }
+    })
+
+    const succeeded: string[] = []
+    const failed: string[] = []
+    const skipped: string[] = [] // Lifetime licenses, which extending would give an expiry
+
+    // One at a time so every license gets its own event and revocation entry
+    for (const license of licenses) {
+      if (action === 'extend' && license.expiresAt === null) {
+        skipped.push(license.licenseKey)
+        continue
+      }
+
+      let success = false
+
+      switch (action) {
+        case 'revoke':
+          success = await licenseManager.revokeLicense(license.id, reason, actor)
+          break
+        case 'suspend':
+          success = await licenseManager.suspendLicense(license.id, reason, actor)
+          if (success) {
+            await sharingAnalyzer.resolveFlags(license.id, 'SUSPENDED', session.user.id)
+          }
+          break
+        case 'activate':
+          success = await licenseManager.reactivateLicense(license.id, actor)
+          break
+        case 'extend':
+          success = await licenseManager.extendLicense(license.id, extensionDays!, { actor, reason })
+          break
+      }
+
+      if (success) {
+        succeeded.push(license.licenseKey)
+      } else {
+        failed.push(license.licenseKey)
+      }
+    }
+
+    if (succeeded.length > 0) {
+      await prisma.securityLog.create({
+        data: {
+          userId: session.user.id,
+          action: `LICENSE_BULK_${action.toUpperCase()}`,
+          details: `Bulk ${action} applied to ${succeeded.length} licenses: ${succeeded.join(', ')}` +
+            (extensionDays && action === 'extend' ? ` (+${extensionDays} days)` : '') +
+            (reason ? `. Reason: ${reason}` : '')
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      succeeded: succeeded.length,
+      failed: failed.length + (licenseIds.length - licenses.length),
+      skipped: skipped.length,
+      skippedLicenseKeys: skipped,
+      message: `${succeeded.length} of ${licenseIds.length} licenses updated` +
+        (skipped.length > 0 ? `, ${skipped.length} lifetime license${skipped.length !== 1 ? 's' : ''} skipped` : '')
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Bulk license action error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/auth-options'
 import { prisma } from '@/lib/db/prisma'
 import { licenseManager } from '@/lib/license/license-manager'
+import { keyPoolManager } from '@/lib/license/key-pool'
+import { calculateUpdatesUntil } from '@/lib/utils'
 import { z } from 'zod'
 
 // Get licenses (admin only)
@@ -20,6 +22,8 @@ export async function GET(request: NextRequest) {
     const userId = searchParams.get('userId')
     const productId = searchParams.get('productId')
     const search = searchParams.get('search')
+    const type = searchParams.get('type')
+    const expiry = searchParams.get('expiry')
 
     const skip = (page - 1) * limit
 
@@ -37,6 +41,23 @@ export async function GET(request: NextRequest) {
     if (productId) {
       where.productId = productId
     }
+
+    if (type === 'trial' || type === 'paid') {
+      where.isTrial = type === 'trial'
+    }
+
+    const now = new Date()
+    if (expiry === 'expiring') {
+      where.expiresAt = { gte: now, lte: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000) }
+    } else if (expiry === 'expired') {
+      where.expiresAt = { lt: now }
+    } else if (expiry === 'lifetime') {
+      where.expiresAt = null
+    }
+
+    if (searchParams.get('flagged') === 'true') {
+      where.sharingFlags = { some: { status: 'OPEN' } }
+    }
     
     if (search) {
       where.OR = [
@@ -66,6 +87,23 @@ export async function GET(request: NextRequest) {
               version: true
             }
           },
+          trialClaim: {
+            select: {
+              emailPattern: true,
+              ipAddress: true,
+              createdAt: true
+            }
+          },
+          sharingFlags: {
+            where: { status: 'OPEN' },
+            select: {
+              id: true,
+              reason: true,
+              distinctIps: true,
+              distinctUserAgents: true,
+              createdAt: true
+            }
+          },
           _count: {
             select: {
               downloads: true
@@ -81,13 +119,30 @@ export async function GET(request: NextRequest) {
       prisma.license.count({ where })
     ])
 
+    const [trialStats, keyPools, statusGroups, flaggedCount] = await Promise.all([
+      licenseManager.getTrialStats(),
+      keyPoolManager.getStock(),
+      prisma.license.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      }),
+      prisma.license.count({
+        where: { sharingFlags: { some: { status: 'OPEN' } } }
+      })
+    ])
+
     const totalPages = Math.ceil(totalCount / limit)
 
     return NextResponse.json({
       licenses: licenses.map(license => ({
         ...license,
+        type: license.isTrial ? 'TRIAL' : 'PAID',
         downloadCount: license._count.downloads
       })),
+      trialStats,
+      keyPools,
+      statusCounts: Object.fromEntries(statusGroups.map(group => [group.status, group._count._all])),
+      flaggedCount,
       pagination: {
         page,
         limit,
@@ -108,10 +163,15 @@ export async function GET(request: NextRequest) {
 }
 
 const createLicenseSchema = z.object({
-  userId: z.string().min(1, 'User ID is required'),
+  userId: z.string().min(1).optional(),
+  userEmail: z.string().email('Invalid email address').optional(),
   productId: z.string().min(1, 'Product ID is required'),
   expiresAt: z.string().optional().transform(val => val ? new Date(val) : null),
+  updatesUntil: z.string().optional().transform(val => val ? new Date(val) : undefined),
   hardwareBinding: z.boolean().optional().default(false)
+}).refine(data => data.userId || data.userEmail, {
+  message: 'User ID or email is required',
+  path: ['userId']
 })
 
 // Create license (admin only)
@@ -122,12 +182,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // CSV uploads fill a product's key pool instead of issuing a license
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      return await importPooledKeys(request, session.user.id)
+    }
+
     const body = await request.json()
-    const { userId, productId, expiresAt, hardwareBinding } = createLicenseSchema.parse(body)
+    const { userId, userEmail, productId, expiresAt, updatesUntil, hardwareBinding } = createLicenseSchema.parse(body)
 
     // Verify user and product exist
     const [user, product] = await Promise.all([
-      prisma.user.findUnique({ where: { id: userId } }),
+      prisma.user.findUnique({ where: userId ? { id: userId } : { email: userEmail } }),
       prisma.product.findUnique({ where: { id: productId } })
     ])
 
@@ -139,19 +204,32 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
-    // Generate license key
-    const licenseKey = licenseManager.generateLicenseKey(productId, userId)
+    const licenseData = {
+      userId: user.id,
+      productId,
+      status: 'ACTIVE' as const,
+      expiresAt,
+      // Defaults to the product's update window, counted from today
+      updatesUntil: updatesUntil ?? calculateUpdatesUntil(product.updateMonths),
+      requiresHardwareBinding: hardwareBinding
+    }
 
-    // Create license
-    const license = await prisma.license.create({
-      data: {
-        userId,
-        productId,
-        licenseKey,
-        status: 'ACTIVE',
-        expiresAt,
-        requiresHardwareBinding: hardwareBinding
-      },
+    // Pooled products take the next imported key, others get a generated one
+    const created = await licenseManager.issueLicense(
+      licenseData,
+      product.licenseKeySource,
+      { type: 'ADMIN', id: session.user.id }
+    )
+
+    if (!created) {
+      return NextResponse.json(
+        { error: 'No license keys left in this product\'s pool' },
+        { status: 409 }
+      )
+    }
+
+    const license = await prisma.license.findUniqueOrThrow({
+      where: { id: created.id },
       include: {
         user: {
           select: {
@@ -197,3 +275,58 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+const importKeysSchema = z.object({
+  productId: z.string().min(1, 'Product ID is required')
+})
+
+// Import a CSV of pre-generated keys into a product's pool
+async function importPooledKeys(request: NextRequest, adminId: string) {
+  const formData = await request.formData()
+  const { productId } = importKeysSchema.parse({ productId: formData.get('productId') })
+  const file = formData.get('file')
+
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ error: 'CSV file is required' }, { status: 400 })
+  }
+
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, name: true, licenseKeySource: true }
+  })
+
+  if (!product) {
+    return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+  }
+
+  if (product.licenseKeySource !== 'POOL') {
+    return NextResponse.json(
+      { error: 'Product generates its own license keys. Switch it to pooled keys first.' },
+      { status: 400 }
+    )
+  }
+
+  const keys = keyPoolManager.parseCsv(await file.text())
+  if (keys.length === 0) {
+    return NextResponse.json({ error: 'No license keys found in file' }, { status: 400 })
+  }
+
+  const result = await keyPoolManager.importKeys(productId, keys, adminId)
+  const [stock] = await keyPoolManager.getStock([productId])
+
+  await prisma.securityLog.create({
+    data: {
+      userId: adminId,
+      action: 'LICENSE_KEYS_IMPORTED',
+      details: `${result.imported} license keys imported into ${product.name} pool ` +
+        `(${result.duplicates} duplicates, ${result.invalid} invalid skipped)`,
+    }
+  })
+
+  return NextResponse.json({
+    success: true,
+    ...result,
+    stock,
+    message: `${result.imported} license keys imported`
+  })
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { prisma } from '@/lib/db/prisma'
+import { refundManager } from '@/lib/orders/refund-manager'
+import { formatCurrency } from '@/lib/utils'
+import { z } from 'zod'
+
+const resumeRefundSchema = z.object({
+  // Only for provider refunds that were never confirmed
+  providerReference: z.string().trim().min(1).max(255).optional(),
+})
+
+// POST /api/admin/orders/[id]/refunds/[refundId] - Finish a refund stuck in processing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string, refundId: string } }
+) {
+  try {
+    // Check admin authentication
+    const admin = await requireAdminAPI()
+
+    // Validate request body
+    const body = await request.json().catch(() => ({}))
+    const validatedData = resumeRefundSchema.parse(body)
+
+    const existing = await prisma.refund.findFirst({
+      where: {
+        id: params.refundId,
+        orderId: params.id
+      },
+      select: { id: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Refund not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await refundManager.resumeRefund(existing.id, admin.id, validatedData.providerReference)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+
+    // Log refund completion
+    await prisma.securityLog.create({
+      data: {
+        userId: admin.id,
+        action: 'ORDER_REFUND_RESUMED_BY_ADMIN',
+        details: `Completed pending refund ${result.refund.id} of ${formatCurrency(result.refund.amount)} on order ${params.id}${result.fullyRefunded ? ', order fully refunded' : ''}` +
+          (result.unrevokedLicenseIds.length > 0 ? `. Licenses left active: ${result.unrevokedLicenseIds.join(', ')}` : ''),
+        ipAddress: clientIP
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Refund completed',
+      warning: result.unrevokedLicenseIds.length > 0
+        ? `${result.unrevokedLicenseIds.length} license(s) could not be revoked. Revoke them manually.`
+        : null,
+      unrevokedLicenseIds: result.unrevokedLicenseIds,
+      refund: result.refund,
+      fullyRefunded: result.fullyRefunded
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin order refund resume error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
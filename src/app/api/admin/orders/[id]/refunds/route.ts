@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { prisma } from '@/lib/db/prisma'
+import { refundManager } from '@/lib/orders/refund-manager'
+import { formatCurrency } from '@/lib/utils'
+import { z } from 'zod'
+
+// Simple rate limiting implementation
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+
+function rateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now()
+  const record = rateLimitMap.get(key)
+
+  if (!record || now > record.resetTime) {
+    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs })
+    return true
+  }
+
+  if (record.count >= limit) {
+    return false
+  }
+
+  record.count++
+  return true
+}
+
+const createRefundSchema = z.object({
+  // Omit to refund every item not refunded yet
+  orderItemIds: z.array(z.string()).min(1).max(50).optional(),
+  reason: z.string().min(3, 'Reason is required').max(1000),
+})
+
+// GET /api/admin/orders/[id]/refunds - List refunds for an order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimit(`admin-order-refunds-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    await requireAdminAPI()
+
+    const refunds = await prisma.refund.findMany({
+      where: { orderId: params.id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        items: true,
+        createdBy: {
+          select: {
+            name: true,
+            email: true
+          }
+        }
+      }
+    })
+
+    return NextResponse.json({ refunds })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    console.error('Admin order refunds GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/orders/[id]/refunds - Refund the whole order or selected items
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimit(`admin-order-refund-${clientIP}`, 10, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many refund requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    const admin = await requireAdminAPI()
+
+    // Validate request body
+    const body = await request.json()
+    const validatedData = createRefundSchema.parse(body)
+
+    const result = await refundManager.refundOrder(params.id, {
+      orderItemIds: validatedData.orderItemIds,
+      reason: validatedData.reason,
+      adminId: admin.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === 'Order not found' ? 404 : 400 }
+      )
+    }
+
+    // Log refund
+    await prisma.securityLog.create({
+      data: {
+        userId: admin.id,
+        action: 'ORDER_REFUNDED_BY_ADMIN',
+        details: `Refunded ${formatCurrency(result.refund.amount)} on order ${params.id} (${result.refund.method.toLowerCase()}, ${result.refund.items.length} item(s)${result.refund.paymentFee > 0 ? ' plus payment fee' : ''}${result.fullyRefunded ? ', order fully refunded' : ''}). Reason: ${validatedData.reason}` +
+          (result.unrevokedLicenseIds.length > 0 ? ` Licenses left active: ${result.unrevokedLicenseIds.join(', ')}` : ''),
+        ipAddress: clientIP
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: result.refund.method === 'MANUAL'
+        ? 'Refund recorded. Pay the customer out manually; this provider has no refund API.'
+        : 'Refund issued successfully',
+      // The fee is returned with the last items, never split across partial refunds
+      paymentFeeRefunded: result.refund.paymentFee,
+      // Revocation failures need an admin, so they're returned rather than only logged
+      warning: result.unrevokedLicenseIds.length > 0
+        ? `${result.unrevokedLicenseIds.length} license(s) could not be revoked. Revoke them manually.`
+        : null,
+      unrevokedLicenseIds: result.unrevokedLicenseIds,
+      refund: result.refund,
+      fullyRefunded: result.fullyRefunded
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin order refund POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
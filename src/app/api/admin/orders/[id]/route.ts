@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdminAPI } from '@/lib/auth/admin-protection'
 import { prisma } from '@/lib/db/prisma'
+import { orderLifecycle } from '@/lib/orders/order-lifecycle'
 import { z } from 'zod'
 
 // Simple rate limiting implementation
@@ -24,7 +25,9 @@ function rateLimit(key: string, limit: number, windowMs: number): boolean {
 }
 
 const updateOrderSchema = z.object({
-  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'CANCELLED', 'REFUNDED']).optional(),
+  // Refunds go through POST /api/admin/orders/[id]/refunds
+  status: z.enum(['PAID', 'FAILED', 'CANCELLED', 'NEEDS_REVIEW']).optional(),
+  reason: z.string().max(500).optional(),
   notes: z.string().optional(),
 })
 
@@ -55,11 +58,8 @@ export async function GET(
         id: true,
         status: true,
         total: true,
-        subtotal: true,
-        tax: true,
-        shipping: true,
-        discount: true,
-        notes: true,
+        paymentMethod: true,
+        paymentId: true,
         createdAt: true,
         updatedAt: true,
         user: {
@@ -76,38 +76,63 @@ export async function GET(
             id: true,
             quantity: true,
             price: true,
+            durationDays: true,
+            renewalLicenseId: true,
             product: {
               select: {
                 id: true,
                 name: true,
-                description: true,
-                image: true,
-                category: true,
-                downloadUrl: true
+                images: true
+              }
+            },
+            licenses: {
+              select: {
+                id: true,
+                licenseKey: true,
+                status: true
+              }
+            },
+            refundItem: {
+              select: {
+                refundId: true
               }
             }
           }
         },
-        shippingAddress: {
+        refunds: {
+          orderBy: { createdAt: 'desc' },
           select: {
             id: true,
-            fullName: true,
-            addressLine1: true,
-            addressLine2: true,
-            city: true,
-            state: true,
-            postalCode: true,
-            country: true,
-            phone: true
+            amount: true,
+            reason: true,
+            method: true,
+            status: true,
+            providerReference: true,
+            failureReason: true,
+            createdAt: true,
+            createdBy: {
+              select: {
+                name: true,
+                email: true
+              }
+            },
+            items: {
+              select: {
+                orderItemId: true
+              }
+            }
           }
         },
-        payment: {
+        paymentEvents: {
+          orderBy: { createdAt: 'desc' },
           select: {
             id: true,
-            method: true,
+            provider: true,
+            reference: true,
             status: true,
             amount: true,
-            transactionId: true,
+            note: true,
+            processedAt: true,
             createdAt: true
           }
         }
@@ -193,13 +218,24 @@ export async function PUT(
     const body = await request.json()
     const validatedData = updateOrderSchema.parse(body)
 
+    // Status changes go through the lifecycle so licenses and notifications follow
+    if (validatedData.status && validatedData.status !== existingOrder.status) {
+      const result = await orderLifecycle.transition(orderId, validatedData.status, {
+        reason: validatedData.reason,
+        actor: { type: 'ADMIN', id: admin.id }
+      })
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        )
+      }
+    }
+
     // Prepare update data
     const updateData: any = {}
     
-    if (validatedData.status) {
-      updateData.status = validatedData.status
-    }
-    
     if (validatedData.notes !== undefined) {
       updateData.notes = validatedData.notes
     }
@@ -239,12 +275,6 @@ export async function PUT(
       }
     })
 
-    // Send notification email if status changed to completed
-    if (validatedData.status === 'COMPLETED' && existingOrder.status !== 'COMPLETED') {
-      // TODO: Send order completion email
-      console.log(`Order ${orderId} completed - should send email to ${existingOrder.user.email}`)
-    }
-
     return NextResponse.json({
       success: true,
       message: 'Order updated successfully',
@@ -325,9 +355,9 @@ export async function DELETE(
     }
 
     // Check if order can be cancelled
-    if (existingOrder.status === 'COMPLETED') {
+    if (existingOrder.status === 'PAID') {
       return NextResponse.json(
-        { error: 'Cannot cancel completed order. Use refund instead.' },
+        { error: 'Cannot cancel paid order. Use refund instead.' },
         { status: 400 }
       )
     }
@@ -339,15 +369,19 @@ export async function DELETE(
       )
     }
 
-    // Cancel order (soft delete by changing status)
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: { 
-        status: 'CANCELLED',
-        notes: `Order cancelled by admin on ${new Date().toISOString()}`
-      }
+    // Cancel order (soft delete by changing status); the customer is notified
+    const result = await orderLifecycle.transition(orderId, 'CANCELLED', {
+      reason: 'Cancelled by admin',
+      actor: { type: 'ADMIN', id: admin.id }
     })
 
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
     // Log order cancellation
     await prisma.securityLog.create({
       data: {
@@ -357,9 +391,6 @@ export async function DELETE(
       }
     })
 
-    // TODO: Send cancellation email to customer
-    console.log(`Order ${orderId} cancelled - should send email to ${existingOrder.user.email}`)
-
     return NextResponse.json({
       success: true,
       message: 'Order cancelled successfully'
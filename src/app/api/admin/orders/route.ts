@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdminAPI } from '@/lib/auth/admin-protection'
 import { prisma } from '@/lib/db/prisma'
+import { REVENUE_ORDER_STATUSES } from '@/lib/orders/order-status'
 import { z } from 'zod'
 
 // Simple rate limiting implementation
@@ -27,7 +28,7 @@ const querySchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 20),
   search: z.string().optional(),
-  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'CANCELLED', 'REFUNDED', 'all']).optional().default('all'),
+  status: z.enum(['PENDING', 'PAID', 'FAILED', 'CANCELLED', 'REFUNDED', 'NEEDS_REVIEW', 'all']).optional().default('all'),
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
   sortBy: z.enum(['createdAt', 'updatedAt', 'total', 'status']).optional().default('createdAt'),
@@ -35,7 +36,7 @@ const querySchema = z.object({
 })
 
 const updateOrderSchema = z.object({
-  status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'CANCELLED', 'REFUNDED']).optional(),
+  status: z.enum(['PAID', 'FAILED', 'CANCELLED', 'NEEDS_REVIEW']).optional(),
   notes: z.string().optional(),
 })
 
@@ -231,7 +232,7 @@ export async function POST(request: NextRequest) {
       prisma.order.count(),
       prisma.order.aggregate({
         _sum: { total: true },
-        where: { status: 'COMPLETED' }
+        where: { status: { in: REVENUE_ORDER_STATUSES } }
       }),
 
       // Orders by period
@@ -249,21 +250,21 @@ export async function POST(request: NextRequest) {
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfToday }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfWeek }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfMonth }
         }
       }),
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db/prisma'
+import { REVENUE_ORDER_STATUSES } from '@/lib/orders/order-status'
 
 // Simple rate limiting implementation
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
@@ -67,7 +69,7 @@ export async function GET(request: NextRequest) {
       prisma.order.count(),
       prisma.order.aggregate({
         _sum: { total: true },
-        where: { status: 'COMPLETED' }
+        where: { status: { in: REVENUE_ORDER_STATUSES } }
       }),
 
       // Orders by period
@@ -93,28 +95,28 @@ export async function GET(request: NextRequest) {
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfToday }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfWeek }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { gte: startOfMonth }
         }
       }),
       prisma.order.aggregate({
         _sum: { total: true },
         where: {
-          status: 'COMPLETED',
+          status: { in: REVENUE_ORDER_STATUSES },
           createdAt: { 
             gte: startOfLastMonth,
             lte: endOfLastMonth
@@ -167,8 +169,8 @@ export async function GET(request: NextRequest) {
         SELECT 
           DATE(createdAt) as date,
           COUNT(*) as orders,
-          SUM(CASE WHEN status = 'COMPLETED' THEN total ELSE 0 END) as revenue
-        FROM Order 
+          SUM(CASE WHEN status IN (${Prisma.join(REVENUE_ORDER_STATUSES)}) THEN total ELSE 0 END) as revenue
+        FROM orders 
         WHERE createdAt >= ${startOfMonth}
         GROUP BY DATE(createdAt)
         ORDER BY date ASC
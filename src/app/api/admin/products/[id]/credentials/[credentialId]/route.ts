@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { prisma } from '@/lib/db/prisma'
+
+// DELETE /api/admin/products/[id]/credentials/[credentialId] - Revoke a client credential
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string, credentialId: string } }
+) {
+  try {
+    // Check admin authentication
+    const admin = await requireAdminAPI()
+
+    const credential = await prisma.productClientCredential.findFirst({
+      where: {
+        id: params.credentialId,
+        productId: params.id
+      },
+      include: {
+        product: { select: { name: true } }
+      }
+    })
+
+    if (!credential) {
+      return NextResponse.json(
+        { error: 'Credential not found' },
+        { status: 404 }
+      )
+    }
+
+    // Revoked credentials are kept so their client id is never handed out again
+    await prisma.productClientCredential.update({
+      where: { id: credential.id },
+      data: { revokedAt: credential.revokedAt ?? new Date() }
+    })
+
+    // Log credential revocation
+    await prisma.securityLog.create({
+      data: {
+        userId: admin.id,
+        action: 'PRODUCT_CLIENT_CREDENTIAL_REVOKED',
+        details: `Client credential ${credential.clientId} (${credential.name}) revoked for product: ${credential.product.name}`
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Client credential revoked'
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    console.error('Admin product credential DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { prisma } from '@/lib/db/prisma'
+import { createClientCredential } from '@/lib/license/client-auth'
+import { z } from 'zod'
+
+// Simple rate limiting implementation
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+
+function rateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now()
+  const record = rateLimitMap.get(key)
+
+  if (!record || now > record.resetTime) {
+    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs })
+    return true
+  }
+
+  if (record.count >= limit) {
+    return false
+  }
+
+  record.count++
+  return true
+}
+
+const createCredentialSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+})
+
+// GET /api/admin/products/[id]/credentials - List a product's client credentials
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`admin-product-credentials-get-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    await requireAdminAPI()
+
+    const credentials = await prisma.productClientCredential.findMany({
+      where: { productId: params.id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ credentials })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    console.error('Admin product credentials GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/products/[id]/credentials - Create a client credential
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`admin-product-credentials-create-${clientIP}`, 10, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many create requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    const admin = await requireAdminAPI()
+
+    const product = await prisma.product.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        name: true
+      }
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { name } = createCredentialSchema.parse(body)
+
+    const { credential, clientSecret } = await createClientCredential(product.id, name)
+
+    // Log credential creation
+    await prisma.securityLog.create({
+      data: {
+        userId: admin.id,
+        action: 'PRODUCT_CLIENT_CREDENTIAL_CREATED',
+        details: `Client credential ${credential.clientId} (${name}) created for product: ${product.name} (ID: ${product.id})`
+      }
+    })
+
+    // The secret can be derived again, but is deliberately only shown once
+    return NextResponse.json({
+      success: true,
+      message: 'Client credential created. Store the secret now, it won\'t be shown again.',
+      credential,
+      clientSecret
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin product credentials POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
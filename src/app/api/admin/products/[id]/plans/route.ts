@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { prisma } from '@/lib/db/prisma'
+import { z } from 'zod'
+
+// Simple rate limiting implementation
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+
+function rateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now()
+  const record = rateLimitMap.get(key)
+
+  if (!record || now > record.resetTime) {
+    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs })
+    return true
+  }
+
+  if (record.count >= limit) {
+    return false
+  }
+
+  record.count++
+  return true
+}
+
+const updatePlansSchema = z.object({
+  plans: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Plan name is required').max(100, 'Plan name too long'),
+    durationDays: z.number().int().min(1, 'Duration must be at least one day').nullable(),
+    price: z.number().int().min(0, 'Price must be positive'),
+    isActive: z.boolean().default(true),
+  }))
+})
+
+// GET /api/admin/products/[id]/plans - List all plans of a product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`admin-product-plans-get-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    await requireAdminAPI()
+
+    const plans = await prisma.productPlan.findMany({
+      where: { productId: params.id },
+      orderBy: { sortOrder: 'asc' },
+      include: {
+        _count: {
+          select: {
+            orderItems: true
+          }
+        }
+      }
+    })
+
+    return NextResponse.json({ plans })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    console.error('Admin product plans GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/admin/products/[id]/plans - Replace the plan list of a product
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`admin-product-plans-update-${clientIP}`, 20, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many update requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    const admin = await requireAdminAPI()
+
+    const productId = params.id
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: {
+        id: true,
+        name: true,
+        plans: { select: { id: true } }
+      }
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { plans } = updatePlansSchema.parse(body)
+
+    const existingIds = new Set(product.plans.map(plan => plan.id))
+    const unknownPlan = plans.find(plan => plan.id && !existingIds.has(plan.id))
+    if (unknownPlan) {
+      return NextResponse.json(
+        { error: `Plan ${unknownPlan.id} does not belong to this product` },
+        { status: 400 }
+      )
+    }
+
+    // Plans dropped from the list are deactivated rather than deleted, so past
+    // orders keep pointing at the plan they were bought on
+    const keptIds = plans.filter(plan => plan.id).map(plan => plan.id!)
+    const updatedPlans = await prisma.$transaction([
+      prisma.productPlan.updateMany({
+        where: {
+          productId,
+          id: { notIn: keptIds }
+        },
+        data: { isActive: false }
+      }),
+      ...plans.map(({ id, ...plan }, index) => id
+        ? prisma.productPlan.update({
+            where: { id },
+            data: { ...plan, sortOrder: index }
+          })
+        : prisma.productPlan.create({
+            data: { ...plan, productId, sortOrder: index }
+          })
+      )
+    ])
+
+    // Log plan changes
+    await prisma.securityLog.create({
+      data: {
+        userId: admin.id,
+        action: 'PRODUCT_PLANS_UPDATED',
+        details: `Plans updated for product: ${product.name} (ID: ${product.id}), ${plans.length} plans`
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Product plans updated successfully',
+      plans: updatedPlans.slice(1)
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin product plans PUT error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAPI } from '@/lib/auth/admin-protection'
+import { prisma } from '@/lib/db/prisma'
+import { z } from 'zod'
+
+// Simple rate limiting implementation
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+
+function rateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now()
+  const record = rateLimitMap.get(key)
+
+  if (!record || now > record.resetTime) {
+    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs })
+    return true
+  }
+
+  if (record.count >= limit) {
+    return false
+  }
+
+  record.count++
+  return true
+}
+
+const publishReleaseSchema = z.object({
+  version: z.string().min(1, 'Version is required').max(50, 'Version too long'),
+  channel: z.enum(['STABLE', 'BETA']).default('STABLE'),
+  changelog: z.string().min(1, 'Changelog is required').max(20000, 'Changelog too long'),
+  filePath: z.string()
+    .min(1, 'File path is required')
+    .regex(/^(?!\/)(?!.*\.\.)[\w\-./]+$/, 'File path must be relative to the download storage'),
+  fileSize: z.number().int().min(1).optional(),
+  sha256: z.string()
+    .regex(/^[a-fA-F0-9]{64}$/, 'SHA-256 must be 64 hex characters')
+    .transform(value => value.toLowerCase()),
+  releasedAt: z.string().optional().transform(val => val ? new Date(val) : new Date())
+})
+
+// GET /api/admin/products/[id]/releases - List all releases of a product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`admin-product-releases-get-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    await requireAdminAPI()
+
+    const product = await prisma.product.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        name: true,
+        version: true
+      }
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const releases = await prisma.productRelease.findMany({
+      where: { productId: params.id },
+      orderBy: { releasedAt: 'desc' },
+      include: {
+        _count: {
+          select: {
+            downloads: true
+          }
+        }
+      }
+    })
+
+    return NextResponse.json({ product, releases })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    console.error('Admin product releases GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/products/[id]/releases - Publish a new release
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`admin-product-releases-create-${clientIP}`, 10, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many create requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    // Check admin authentication
+    const admin = await requireAdminAPI()
+
+    const productId = params.id
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: {
+        id: true,
+        name: true
+      }
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const data = publishReleaseSchema.parse(body)
+
+    const existingRelease = await prisma.productRelease.findUnique({
+      where: {
+        productId_version: {
+          productId,
+          version: data.version
+        }
+      }
+    })
+
+    if (existingRelease) {
+      return NextResponse.json(
+        { error: `Version ${data.version} has already been released` },
+        { status: 400 }
+      )
+    }
+
+    const latestStable = await prisma.productRelease.findFirst({
+      where: { productId, channel: 'STABLE' },
+      orderBy: { releasedAt: 'desc' },
+      select: { releasedAt: true }
+    })
+
+    const release = await prisma.productRelease.create({
+      data: {
+        ...data,
+        productId
+      }
+    })
+
+    // The newest stable release becomes the version shown on the product
+    if (release.channel === 'STABLE' && (!latestStable || release.releasedAt >= latestStable.releasedAt)) {
+      await prisma.product.update({
+        where: { id: productId },
+        data: { version: release.version }
+      })
+    }
+
+    // Log release publication
+    await prisma.securityLog.create({
+      data: {
+        userId: admin.id,
+        action: 'PRODUCT_RELEASE_PUBLISHED',
+        details: `Release ${release.version} (${release.channel.toLowerCase()}) published for product: ${product.name} (ID: ${product.id})`
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Release published successfully',
+      release
+    })
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin product releases POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -30,9 +30,18 @@ const updateProductSchema = z.object({
   category: z.string().min(1, 'Category is required').optional(),
   image: z.string().url('Invalid image URL').optional(),
   features: z.array(z.string()).optional(),
-  downloadUrl: z.string().url('Invalid download URL').optional(),
+  // Build served to licenses of products without releases, as a path in download storage
+  downloadUrl: z.string()
+    .regex(/^(?!\/)(?!.*\.\.)[\w\-./]+$/, 'Download file must be a path relative to the download storage')
+    .optional(),
   isActive: z.boolean().optional(),
   stock: z.number().int().min(0, 'Stock must be non-negative').optional(),
+  maxActivations: z.number().int().min(1, 'At least one activation is required').optional(),
+  maxSessions: z.number().int().min(1, 'At least one session is required').optional(),
+  trialDays: z.number().int().min(1, 'Trial must last at least one day').nullable().optional(),
+  licenseKeySource: z.enum(['GENERATED', 'POOL']).optional(),
+  lowStockThreshold: z.number().int().min(0, 'Threshold cannot be negative').optional(),
+  updateMonths: z.number().int().min(1, 'Update window must be at least one month').nullable().optional(),
 })
 
 // GET /api/admin/products/[id] - Get single product
@@ -23,6 +23,13 @@ function rateLimit(key: string, limit: number, windowMs: number): boolean {
   return true
 }
 
+const productPlanSchema = z.object({
+  name: z.string().min(1, 'Plan name is required').max(100, 'Plan name too long'),
+  durationDays: z.number().int().min(1, 'Duration must be at least one day').nullable(),
+  price: z.number().int().min(0, 'Price must be positive'),
+  isActive: z.boolean().default(true),
+})
+
 const createProductSchema = z.object({
   name: z.string().min(1, 'Product name is required').max(255, 'Name too long'),
   description: z.string().min(1, 'Description is required'),
@@ -30,9 +37,19 @@ const createProductSchema = z.object({
   category: z.string().min(1, 'Category is required'),
   image: z.string().url('Invalid image URL').optional(),
   features: z.array(z.string()).optional(),
-  downloadUrl: z.string().url('Invalid download URL').optional(),
+  // Build served to licenses of products without releases, as a path in download storage
+  downloadUrl: z.string()
+    .regex(/^(?!\/)(?!.*\.\.)[\w\-./]+$/, 'Download file must be a path relative to the download storage')
+    .optional(),
   isActive: z.boolean().default(true),
   stock: z.number().int().min(0, 'Stock must be non-negative').optional(),
+  maxActivations: z.number().int().min(1, 'At least one activation is required').optional(),
+  maxSessions: z.number().int().min(1, 'At least one session is required').optional(),
+  trialDays: z.number().int().min(1, 'Trial must last at least one day').nullable().optional(),
+  licenseKeySource: z.enum(['GENERATED', 'POOL']).optional(),
+  lowStockThreshold: z.number().int().min(0, 'Threshold cannot be negative').optional(),
+  updateMonths: z.number().int().min(1, 'Update window must be at least one month').nullable().optional(),
+  plans: z.array(productPlanSchema).optional(),
 })
 
 const updateProductSchema = createProductSchema.partial()
@@ -113,12 +130,26 @@ export async function GET(request: NextRequest) {
         downloadUrl: true,
         isActive: true,
         stock: true,
+        licenseKeySource: true,
+        lowStockThreshold: true,
+        updateMonths: true,
+        plans: {
+          where: { isActive: true },
+          orderBy: { sortOrder: 'asc' },
+          select: {
+            id: true,
+            name: true,
+            durationDays: true,
+            price: true
+          }
+        },
         createdAt: true,
         updatedAt: true,
         _count: {
           select: {
             orderItems: true,
-            reviews: true
+            reviews: true,
+            pooledKeys: { where: { allocatedAt: null } }
           }
         }
       }
@@ -188,13 +219,16 @@ export async function POST(request: NextRequest) {
 
     // Validate request body
     const body = await request.json()
-    const validatedData = createProductSchema.parse(body)
+    const { plans, ...validatedData } = createProductSchema.parse(body)
 
-    // Create product
+    // Create product together with its plans
     const product = await prisma.product.create({
       data: {
         ...validatedData,
-        features: validatedData.features || []
+        features: validatedData.features || [],
+        plans: plans
+          ? { create: plans.map((plan, index) => ({ ...plan, sortOrder: index })) }
+          : undefined
       },
       select: {
         id: true,
@@ -207,6 +241,7 @@ export async function POST(request: NextRequest) {
         downloadUrl: true,
         isActive: true,
         stock: true,
+        plans: true,
         createdAt: true,
         updatedAt: true
       }
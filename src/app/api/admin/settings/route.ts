@@ -62,6 +62,31 @@ const settingsSchema = z.object({
     maxLoginAttempts: z.number().min(1).optional(),
     passwordMinLength: z.number().min(6).optional(),
   }).optional(),
+  renewalSettings: z.object({
+    pricePercent: z.number().min(0).max(100).optional(),
+    stackEarlyRenewals: z.boolean().optional(),
+    earlyRenewalWindowDays: z.number().int().min(0).optional(),
+  }).optional(),
+  downloadSettings: z.object({
+    downloadsPerDay: z.number().int().min(0).optional(),
+    distinctIpsPerWeek: z.number().int().min(0).optional(),
+    sharingWindowHours: z.number().int().min(1).optional(),
+    sharingIpThreshold: z.number().int().min(2).optional(),
+    sharingUserAgentThreshold: z.number().int().min(2).optional(),
+  }).optional(),
+  clientApiSettings: z.object({
+    requireSignedRequests: z.boolean().optional(),
+    allowGetValidation: z.boolean().optional(),
+    timestampToleranceSeconds: z.number().int().min(30).max(3600).optional(),
+    validationsPerKeyPerMinute: z.number().int().min(1).optional(),
+    requestsPerKeyPerMinute: z.number().int().min(1).optional(),
+    requireDeviceActivation: z.boolean().optional(),
+  }).optional(),
+  hardwareResetSettings: z.object({
+    cooldownDays: z.number().int().min(0).optional(),
+    monthlyLimit: z.number().int().min(0).optional(),
+    requireReauthentication: z.boolean().optional(),
+  }).optional(),
   maintenanceMode: z.boolean().optional(),
   registrationEnabled: z.boolean().optional(),
 })
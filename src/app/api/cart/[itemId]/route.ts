@@ -41,6 +41,14 @@ export async function PATCH(
             images: true,
             isActive: true,
           }
+        },
+        plan: {
+          select: {
+            id: true,
+            name: true,
+            durationDays: true,
+            price: true,
+          }
         }
       }
     })
@@ -67,6 +75,14 @@ export async function PATCH(
             originalPrice: true,
             images: true,
           }
+        },
+        plan: {
+          select: {
+            id: true,
+            name: true,
+            durationDays: true,
+            price: true,
+          }
         }
       }
     })
@@ -77,6 +93,8 @@ export async function PATCH(
       item: {
         id: updatedItem.id,
         productId: updatedItem.productId,
+        planId: updatedItem.planId,
+        plan: updatedItem.plan,
         quantity: updatedItem.quantity,
         product: {
           ...updatedItem.product,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/auth-options'
 import { prisma } from '@/lib/db/prisma'
+import { getProductPricing } from '@/lib/db/products'
 import { z } from 'zod'
 
 // Get user's cart
@@ -28,6 +29,14 @@ export async function GET(request: NextRequest) {
                 images: true,
                 isActive: true,
               }
+            },
+            plan: {
+              select: {
+                id: true,
+                name: true,
+                durationDays: true,
+                price: true,
+              }
             }
           }
         }
@@ -50,6 +59,14 @@ export async function GET(request: NextRequest) {
                   images: true,
                   isActive: true,
                 }
+              },
+              plan: {
+                select: {
+                  id: true,
+                  name: true,
+                  durationDays: true,
+                  price: true,
+                }
               }
             }
           }
@@ -57,9 +74,9 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    // Calculate totals
+    // Calculate totals, plan items are priced by their plan
     const subtotal = cart.items.reduce((total, item) => {
-      return total + (item.product.price * item.quantity)
+      return total + ((item.plan?.price ?? item.product.price) * item.quantity)
     }, 0)
 
     const totalItems = cart.items.reduce((total, item) => total + item.quantity, 0)
@@ -70,6 +87,8 @@ export async function GET(request: NextRequest) {
         items: cart.items.map(item => ({
           id: item.id,
           productId: item.productId,
+          planId: item.planId,
+          plan: item.plan,
           quantity: item.quantity,
           product: {
             ...item.product,
@@ -96,6 +115,7 @@ export async function GET(request: NextRequest) {
 
 const addToCartSchema = z.object({
   productId: z.string().min(1, 'Product ID is required'),
+  planId: z.string().optional(),
   quantity: z.number().int().min(1, 'Quantity must be at least 1').max(10, 'Maximum quantity is 10').default(1)
 })
 
@@ -108,7 +128,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { productId, quantity } = addToCartSchema.parse(body)
+    const { productId, planId, quantity } = addToCartSchema.parse(body)
 
     // Check if product exists and is active
     const product = await prisma.product.findUnique({
@@ -124,6 +144,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Product is not available' }, { status: 400 })
     }
 
+    // Products sold on plans need a valid, active plan
+    const pricing = await getProductPricing(productId, planId)
+    if (!pricing.success) {
+      return NextResponse.json({ error: pricing.error }, { status: 400 })
+    }
+
     // Get or create cart
     let cart = await prisma.cart.findUnique({
       where: { userId: session.user.id }
@@ -135,13 +161,12 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Check if item already exists in cart
-    const existingItem = await prisma.cartItem.findUnique({
+    // Check if item already exists in cart with the same plan
+    const existingItem = await prisma.cartItem.findFirst({
       where: {
-        cartId_productId: {
-          cartId: cart.id,
-          productId: productId
-        }
+        cartId: cart.id,
+        productId: productId,
+        planId: planId ?? null
       }
     })
 
@@ -161,6 +186,14 @@ export async function POST(request: NextRequest) {
               originalPrice: true,
               images: true,
             }
+          },
+          plan: {
+            select: {
+              id: true,
+              name: true,
+              durationDays: true,
+              price: true,
+            }
           }
         }
       })
@@ -170,6 +203,7 @@ export async function POST(request: NextRequest) {
         data: {
           cartId: cart.id,
           productId: productId,
+          planId: planId,
           quantity: quantity
         },
         include: {
@@ -182,6 +216,14 @@ export async function POST(request: NextRequest) {
               originalPrice: true,
               images: true,
             }
+          },
+          plan: {
+            select: {
+              id: true,
+              name: true,
+              durationDays: true,
+              price: true,
+            }
           }
         }
       })
@@ -193,6 +235,8 @@ export async function POST(request: NextRequest) {
       item: {
         id: cartItem.id,
         productId: cartItem.productId,
+        planId: cartItem.planId,
+        plan: cartItem.plan,
         quantity: cartItem.quantity,
         product: {
           ...cartItem.product,
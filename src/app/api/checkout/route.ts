@@ -2,15 +2,21 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/auth-options'
 import { prisma } from '@/lib/db/prisma'
+import { getProductPricing } from '@/lib/db/products'
+import { keyPoolManager } from '@/lib/license/key-pool'
 import { notificationService } from '@/lib/notifications/notification-service'
+import { orderLifecycle } from '@/lib/orders/order-lifecycle'
+import { INITIAL_ORDER_STATUS } from '@/lib/orders/order-status'
+import { getPaymentProvider, type CreatePaymentResult } from '@/lib/payment'
 import { z } from 'zod'
 
 const checkoutSchema = z.object({
   items: z.array(z.object({
     productId: z.string(),
+    planId: z.string().optional(),
     quantity: z.number().int().min(1).max(10),
     price: z.number().min(0)
-  })),
+  })).min(1, 'Cart is empty'),
   paymentMethod: z.enum(['DUITKU_VA', 'DUITKU_EWALLET', 'DUITKU_QRIS', 'DUITKU_CREDIT_CARD']),
   customerInfo: z.object({
     name: z.string().min(1, 'Name is required'),
@@ -29,69 +35,73 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { items, paymentMethod, customerInfo } = checkoutSchema.parse(body)
 
-    // Validate products exist and are active
-    const productIds = items.map(item => item.productId)
-    const products = await prisma.product.findMany({
-      where: {
-        id: { in: productIds },
-        isActive: true
-      },
-      select: {
-        id: true,
-        name: true,
-        price: true,
-        isActive: true
+    // Validate products and plans exist and are active
+    const pricedItems = []
+    for (const item of items) {
+      const pricing = await getProductPricing(item.productId, item.planId)
+      if (!pricing.success) {
+        return NextResponse.json(
+          { error: pricing.error },
+          { status: 400 }
+        )
       }
-    })
 
-    if (products.length !== productIds.length) {
-      return NextResponse.json(
-        { error: 'Some products are not available' },
-        { status: 400 }
-      )
-    }
-
-    // Validate prices match
-    for (const item of items) {
-      const product = products.find(p => p.id === item.productId)
-      if (!product || product.price !== item.price) {
+      // Validate prices match
+      if (pricing.price !== item.price) {
         return NextResponse.json(
           { error: 'Product prices have changed. Please refresh your cart.' },
           { status: 400 }
         )
       }
+
+      pricedItems.push({ ...item, ...pricing })
     }
 
-    // Calculate total
-    const total = items.reduce((sum, item) => {
-      const product = products.find(p => p.id === item.productId)!
-      return sum + (product.price * item.quantity)
-    }, 0)
+    // Products sold from a key pool can't be bought once the pool is empty
+    const outOfStock = await keyPoolManager.findOutOfStock(items)
+    if (outOfStock.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${outOfStock[0].productName} is out of stock`,
+          outOfStock
+        },
+        { status: 400 }
+      )
+    }
+
+    // Calculate total, with the payment method's fee charged on top
+    const provider = getPaymentProvider()
+    const subtotal = pricedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+    const paymentFee = provider.getPaymentFee(paymentMethod)
+    const total = subtotal + paymentFee
+
+    const orderPaymentData = {
+      customerInfo,
+      paymentFee,
+      items: pricedItems.map(item => ({
+        productId: item.productId,
+        productName: item.product.name,
+        planName: item.plan?.name ?? null,
+        quantity: item.quantity,
+        price: item.price
+      }))
+    }
 
     // Create order
     const order = await prisma.order.create({
       data: {
         userId: session.user.id,
-        status: 'PENDING',
+        status: INITIAL_ORDER_STATUS,
         total,
         paymentMethod,
-        paymentData: {
-          customerInfo,
-          items: items.map(item => {
-            const product = products.find(p => p.id === item.productId)!
-            return {
-              productId: item.productId,
-              productName: product.name,
-              quantity: item.quantity,
-              price: product.price
-            }
-          })
-        },
+        paymentData: orderPaymentData,
         items: {
-          create: items.map(item => ({
+          create: pricedItems.map(item => ({
             productId: item.productId,
+            planId: item.plan?.id,
             quantity: item.quantity,
-            price: item.price
+            price: item.price,
+            durationDays: item.durationDays
           }))
         }
       },
@@ -108,7 +118,53 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    // Clear user's cart after successful order creation
+    let payment: CreatePaymentResult
+    try {
+      payment = await provider.createPayment({
+        orderId: order.id,
+        amount: total,
+        method: paymentMethod,
+        description: order.items.map(item => item.product.name).join(', '),
+        customer: customerInfo,
+        items: [
+          ...order.items.map(item => ({
+            name: item.product.name,
+            price: item.price * item.quantity,
+            quantity: item.quantity
+          })),
+          ...(paymentFee > 0 ? [{ name: 'Payment fee', price: paymentFee, quantity: 1 }] : [])
+        ]
+      })
+    } catch (error) {
+      // Nothing was charged; close the order and leave the cart for another attempt
+      await orderLifecycle.transition(order.id, 'FAILED', {
+        reason: 'Payment could not be created'
+      })
+
+      console.error('Checkout payment creation error:', error)
+      return NextResponse.json(
+        { error: 'Payment could not be created. Please try again or choose another payment method.' },
+        { status: 502 }
+      )
+    }
+
+    // Keep what the payment instructions page needs to show
+    await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        paymentId: payment.reference,
+        paymentData: {
+          ...orderPaymentData,
+          reference: payment.reference,
+          paymentCode: payment.paymentCode,
+          paymentUrl: payment.paymentUrl,
+          vaNumber: payment.vaNumber ?? null,
+          qrString: payment.qrString ?? null
+        }
+      }
+    })
+
+    // Clear user's cart once the payment is waiting
     const cart = await prisma.cart.findUnique({
       where: { userId: session.user.id }
     })
@@ -119,10 +175,6 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // TODO: Integrate with Duitku payment gateway
-    // For now, we'll create a mock payment URL
-    const paymentUrl = `/payment/${order.id}`
-
     // Send order created notification
     await notificationService.notifyOrderCreated(
       session.user.id,
@@ -142,8 +194,11 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       orderId: order.id,
-      paymentUrl,
+      paymentUrl: payment.paymentUrl,
+      // VA numbers and QR codes are shown on our own instructions page
+      instructionsUrl: payment.vaNumber || payment.qrString ? `/payment/instructions/${order.id}` : null,
       total,
+      paymentFee,
       message: 'Order created successfully'
     })
 
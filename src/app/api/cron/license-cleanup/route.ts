@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { licenseManager } from '@/lib/license/license-manager'
+import { leaseManager } from '@/lib/license/lease-manager'
 import { notificationService } from '@/lib/notifications/notification-service'
+import { cleanupRequestNonces } from '@/lib/license/client-auth'
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,7 +29,8 @@ export async function GET(request: NextRequest) {
         const success = await notificationService.notifyLicenseExpiring(
           license.userId,
           license.product.name,
-          license.expiresAt
+          license.expiresAt,
+          license.id
         )
         if (success) notificationsSent++
       }
@@ -43,7 +46,7 @@ export async function GET(request: NextRequest) {
         const success = await notificationService.createNotification({
           userId: license.userId,
           title: 'License Expiring Tomorrow!',
-          message: `Your license for ${license.product.name} will expire tomorrow. Please renew to continue using the product.`,
+          message: `Your license for ${license.product.name} will expire tomorrow. Renew it from your dashboard to continue using the product.`,
           type: 'WARNING',
           data: {
             licenseId: license.id,
@@ -57,6 +60,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // 6. Remove session leases that missed their heartbeat
+    const expiredLeases = await leaseManager.cleanupExpiredLeases()
+
+    // 7. Drop nonces of signed client requests that can no longer be replayed
+    const expiredNonces = await cleanupRequestNonces()
+
     const result = {
       success: true,
       timestamp: new Date().toISOString(),
@@ -65,7 +74,9 @@ export async function GET(request: NextRequest) {
         expiringIn7Days: expiringLicenses.length,
         expiringIn1Day: urgentExpiringLicenses.length,
         notificationsSent,
-        urgentNotificationsSent
+        urgentNotificationsSent,
+        expiredLeasesRemoved: expiredLeases,
+        expiredNoncesRemoved: expiredNonces
       }
     }
 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sharingAnalyzer } from '@/lib/license/sharing-analyzer'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET || 'default-cron-secret'
+
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('Starting license sharing analysis...')
+
+    const results = await sharingAnalyzer.analyze()
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      results
+    }
+
+    console.log('License sharing analysis completed:', result)
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('License sharing analysis error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'License sharing analysis failed',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Manual trigger for development/testing
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json({ error: 'Not available in production' }, { status: 404 })
+  }
+
+  return GET(request)
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/auth-options'
+import { prisma } from '@/lib/db/prisma'
+import { licenseManager } from '@/lib/license/license-manager'
+
+// Free an activation slot on one of the user's licenses
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { licenseId: string, activationId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Verify license ownership
+    const license = await prisma.license.findFirst({
+      where: {
+        id: params.licenseId,
+        userId: session.user.id
+      },
+      select: {
+        id: true,
+        licenseKey: true
+      }
+    })
+
+    if (!license) {
+      return NextResponse.json(
+        { error: 'License not found or not accessible' },
+        { status: 404 }
+      )
+    }
+
+    const success = await licenseManager.removeActivation(license.id, params.activationId, {
+      type: 'USER',
+      id: session.user.id
+    })
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.securityLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'LICENSE_DEVICE_DEACTIVATED',
+        details: `Device ${params.activationId} removed from license ${license.licenseKey}`,
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+        userAgent: request.headers.get('user-agent')
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Device deactivated successfully'
+    })
+
+  } catch (error) {
+    console.error('Deactivate device error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
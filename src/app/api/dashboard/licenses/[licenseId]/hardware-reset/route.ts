@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { compare } from 'bcryptjs'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth/auth-options'
+import { rateLimit } from '@/lib/auth/route-protection'
+import { verifyTwoFactorToken } from '@/lib/auth/two-factor'
+import { prisma } from '@/lib/db/prisma'
+import {
+  getHardwareResetAvailability,
+  getHardwareResetSettings,
+  resetHardwareWithinAllowance
+} from '@/lib/license/hardware-reset'
+import { sendHardwareResetEmail } from '@/lib/email/email-service'
+
+const hardwareResetSchema = z.object({
+  password: z.string().optional(),
+  token: z.string().optional(),
+})
+
+// How the user has to confirm a reset, and whether one is available right now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { licenseId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [license, user, settings] = await Promise.all([
+      prisma.license.findFirst({
+        where: {
+          id: params.licenseId,
+          userId: session.user.id
+        },
+        select: { id: true }
+      }),
+      prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { password: true, twoFactorEnabled: true }
+      }),
+      getHardwareResetSettings()
+    ])
+
+    if (!license || !user) {
+      return NextResponse.json(
+        { error: 'License not found or not accessible' },
+        { status: 404 }
+      )
+    }
+
+    const availability = await getHardwareResetAvailability(license.id)
+
+    return NextResponse.json({
+      ...availability,
+      cooldownDays: settings.cooldownDays,
+      requiresTwoFactor: settings.requireReauthentication && user.twoFactorEnabled,
+      requiresPassword: settings.requireReauthentication && !user.twoFactorEnabled && !!user.password
+    })
+
+  } catch (error) {
+    console.error('Get hardware reset status error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Clear all device bindings of one of the user's licenses
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { licenseId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Rate limiting
+    if (!rateLimit(`hardware-reset-${session.user.id}`, 5, 15 * 60 * 1000)) {
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const body = await request.json()
+    const { password, token } = hardwareResetSchema.parse(body)
+
+    const clientIP = request.headers.get('x-forwarded-for') || 
+                    request.headers.get('x-real-ip') || 
+                    'unknown'
+
+    // Verify license ownership
+    const [license, user, settings] = await Promise.all([
+      prisma.license.findFirst({
+        where: {
+          id: params.licenseId,
+          userId: session.user.id
+        },
+        select: {
+          id: true,
+          licenseKey: true,
+          status: true,
+          product: { select: { name: true } }
+        }
+      }),
+      prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { email: true, name: true, password: true, twoFactorEnabled: true }
+      }),
+      getHardwareResetSettings()
+    ])
+
+    if (!license || !user) {
+      return NextResponse.json(
+        { error: 'License not found or not accessible' },
+        { status: 404 }
+      )
+    }
+
+    if (license.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { error: `License is ${license.status.toLowerCase()}` },
+        { status: 400 }
+      )
+    }
+
+    const availability = await getHardwareResetAvailability(license.id)
+    if (!availability.allowed) {
+      return NextResponse.json(
+        { error: availability.error, nextResetAt: availability.nextResetAt },
+        { status: 429 }
+      )
+    }
+
+    // Confirm it's really the account owner: 2FA when enabled, otherwise the
+    // password. Accounts that only sign in through OAuth have neither.
+    if (settings.requireReauthentication) {
+      if (user.twoFactorEnabled) {
+        const tokenResult = token ? await verifyTwoFactorToken(session.user.id, token) : { success: false }
+        if (!tokenResult.success) {
+          return NextResponse.json(
+            { error: 'Invalid verification code' },
+            { status: 400 }
+          )
+        }
+      } else if (user.password) {
+        if (!password || !await compare(password, user.password)) {
+          return NextResponse.json(
+            { error: 'Invalid password' },
+            { status: 400 }
+          )
+        }
+      }
+    }
+
+    // Another reset may have gone through while the owner was re-authenticating
+    const reset = await resetHardwareWithinAllowance(license.id, {
+      type: 'USER',
+      id: session.user.id,
+      ipAddress: clientIP
+    })
+
+    if (!reset.allowed) {
+      return NextResponse.json(
+        { error: reset.error, nextResetAt: reset.nextResetAt },
+        { status: 429 }
+      )
+    }
+
+    await prisma.securityLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'LICENSE_HARDWARE_RESET',
+        details: `Hardware binding of license ${license.licenseKey} reset`,
+        ipAddress: clientIP,
+        userAgent: request.headers.get('user-agent')
+      }
+    })
+
+    await sendHardwareResetEmail(user.email, user.name || 'there', {
+      productName: license.product.name,
+      licenseKey: license.licenseKey,
+      ipAddress: clientIP,
+      resetAt: new Date()
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Hardware binding reset. You can now activate the license on your device.',
+      availability: await getHardwareResetAvailability(license.id)
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Hardware reset error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/auth-options'
+import { prisma } from '@/lib/db/prisma'
+import { getRenewalQuote } from '@/lib/license/renewal'
+import { notificationService } from '@/lib/notifications/notification-service'
+import { orderLifecycle } from '@/lib/orders/order-lifecycle'
+import { INITIAL_ORDER_STATUS } from '@/lib/orders/order-status'
+import { getPaymentProvider, type CreatePaymentResult } from '@/lib/payment'
+import { z } from 'zod'
+
+const renewSchema = z.object({
+  planId: z.string().min(1, 'Plan is required'),
+  paymentMethod: z.enum(['DUITKU_VA', 'DUITKU_EWALLET', 'DUITKU_QRIS', 'DUITKU_CREDIT_CARD']),
+  phone: z.string().optional()
+})
+
+// Renewal plans and prices for one of the user's licenses
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { licenseId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const quote = await getRenewalQuote(params.licenseId, session.user.id)
+
+    if (!quote.success) {
+      return NextResponse.json({ error: quote.error }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      license: quote.license,
+      options: quote.options
+    })
+
+  } catch (error) {
+    console.error('Get renewal options error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create an order that extends the license once paid
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { licenseId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { planId, paymentMethod, phone } = renewSchema.parse(body)
+
+    const quote = await getRenewalQuote(params.licenseId, session.user.id)
+
+    if (!quote.success) {
+      return NextResponse.json({ error: quote.error }, { status: 400 })
+    }
+
+    const option = quote.options.find(item => item.planId === planId)
+    if (!option) {
+      return NextResponse.json(
+        { error: 'Selected plan is not available for renewal' },
+        { status: 400 }
+      )
+    }
+
+    const customerInfo = {
+      name: session.user.name || session.user.email || 'Customer',
+      email: session.user.email || '',
+      phone: phone || ''
+    }
+
+    const provider = getPaymentProvider()
+    const paymentFee = provider.getPaymentFee(paymentMethod)
+
+    const orderPaymentData = {
+      customerInfo,
+      paymentFee,
+      renewal: {
+        licenseId: quote.license.id,
+        licenseKey: quote.license.licenseKey,
+        planName: option.name
+      },
+      items: [{
+        productId: quote.license.productId,
+        productName: quote.license.productName,
+        planName: option.name,
+        quantity: 1,
+        price: option.price
+      }]
+    }
+
+    const order = await prisma.order.create({
+      data: {
+        userId: session.user.id,
+        status: INITIAL_ORDER_STATUS,
+        total: option.price + paymentFee,
+        paymentMethod,
+        paymentData: orderPaymentData,
+        items: {
+          create: {
+            productId: quote.license.productId,
+            planId: option.planId,
+            renewalLicenseId: quote.license.id,
+            quantity: 1,
+            price: option.price,
+            durationDays: option.durationDays
+          }
+        }
+      }
+    })
+
+    const description = `${quote.license.productName} renewal (${option.name})`
+
+    let payment: CreatePaymentResult
+    try {
+      payment = await provider.createPayment({
+        orderId: order.id,
+        amount: order.total,
+        method: paymentMethod,
+        description,
+        customer: customerInfo,
+        items: [
+          { name: description, price: option.price, quantity: 1 },
+          ...(paymentFee > 0 ? [{ name: 'Payment fee', price: paymentFee, quantity: 1 }] : [])
+        ]
+      })
+    } catch (error) {
+      // Nothing was charged; keep the order for the record but close it
+      await orderLifecycle.transition(order.id, 'FAILED', {
+        reason: 'Payment could not be created'
+      })
+
+      console.error('Renewal payment creation error:', error)
+      return NextResponse.json(
+        { error: 'Payment could not be created. Please try again or choose another payment method.' },
+        { status: 502 }
+      )
+    }
+
+    // Keep what the payment instructions page needs to show
+    await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        paymentId: payment.reference,
+        paymentData: {
+          ...orderPaymentData,
+          reference: payment.reference,
+          paymentCode: payment.paymentCode,
+          paymentUrl: payment.paymentUrl,
+          vaNumber: payment.vaNumber ?? null,
+          qrString: payment.qrString ?? null
+        }
+      }
+    })
+
+    await notificationService.notifyOrderCreated(
+      session.user.id,
+      order.id,
+      order.total
+    )
+
+    await prisma.securityLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'LICENSE_RENEWAL_ORDER_CREATED',
+        details: `Order ${order.id} created to renew license ${quote.license.licenseKey} (${option.name})`,
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+        userAgent: request.headers.get('user-agent')
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      orderId: order.id,
+      paymentUrl: payment.paymentUrl,
+      // VA numbers and QR codes are shown on our own instructions page
+      instructionsUrl: payment.vaNumber || payment.qrString ? `/payment/instructions/${order.id}` : null,
+      total: order.total,
+      message: 'Renewal order created successfully'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Create renewal order error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
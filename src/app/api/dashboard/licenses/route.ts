@@ -41,7 +41,19 @@ export async function GET(request: NextRequest) {
               id: true,
               name: true,
               slug: true,
-              downloadUrl: true
+              maxActivations: true
+            }
+          },
+          activations: {
+            select: {
+              id: true,
+              deviceName: true,
+              ipAddress: true,
+              lastSeenAt: true,
+              createdAt: true
+            },
+            orderBy: {
+              lastSeenAt: 'desc'
             }
           },
           _count: {
@@ -64,9 +76,12 @@ export async function GET(request: NextRequest) {
       id: license.id,
       licenseKey: license.licenseKey,
       status: license.status,
+      isTrial: license.isTrial,
       createdAt: license.createdAt,
       expiresAt: license.expiresAt,
+      updatesUntil: license.updatesUntil,
       downloadCount: license._count.downloads,
+      activations: license.activations,
       product: license.product
     }))
 
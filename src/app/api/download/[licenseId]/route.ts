@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/auth-options'
 import { prisma } from '@/lib/db/prisma'
 import { licenseManager } from '@/lib/license/license-manager'
+import { getLatestRelease, getProductRelease, isReleaseEntitled } from '@/lib/db/releases'
+import { generateDownloadToken } from '@/lib/download/download-token'
+import { checkDownloadQuota } from '@/lib/download/download-limits'
 
 export async function GET(
   request: NextRequest,
@@ -26,7 +29,6 @@ export async function GET(
           select: {
             id: true,
             name: true,
-            downloadUrl: true,
             isActive: true
           }
         }
@@ -49,10 +51,7 @@ export async function GET(
 
     // Check if license is expired
     if (license.expiresAt && license.expiresAt < new Date()) {
-      await prisma.license.update({
-        where: { id: license.id },
-        data: { status: 'EXPIRED' }
-      })
+      await licenseManager.expireLicense(license.id)
 
       return NextResponse.json(
         { error: 'License has expired' },
@@ -60,33 +59,70 @@ export async function GET(
       )
     }
 
-    // Get client IP and user agent
+    // A specific release can be requested, otherwise the latest stable build
+    // the license's update window covers
+    const releaseId = new URL(request.url).searchParams.get('releaseId')
+    const release = releaseId
+      ? await getProductRelease(license.productId, releaseId)
+      : await getLatestRelease(license.productId, 'STABLE', license.updatesUntil)
+
+    if (releaseId && !release) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      )
+    }
+
+    if (release && !isReleaseEntitled(release, license.updatesUntil)) {
+      return NextResponse.json(
+        { error: 'This release was published after your update window ended' },
+        { status: 403 }
+      )
+    }
+
+    // Every published release is newer than the update window
+    if (!release && license.updatesUntil && await getLatestRelease(license.productId)) {
+      return NextResponse.json(
+        { error: 'No release is included in your update window' },
+        { status: 403 }
+      )
+    }
+
     const clientIP = request.headers.get('x-forwarded-for') || 
                     request.headers.get('x-real-ip') || 
                     'unknown'
-    const userAgent = request.headers.get('user-agent') || 'unknown'
 
-    // Log download
-    await prisma.download.create({
-      data: {
-        userId: session.user.id,
-        productId: license.productId,
-        licenseId: license.id,
-        ipAddress: clientIP,
-        userAgent: userAgent
-      }
+    // Fail early on an exhausted quota; the download is recorded when the file is fetched
+    const quota = await checkDownloadQuota(license.id, clientIP)
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { error: quota.error },
+        { status: 429 }
+      )
+    }
+
+    // The file itself is only served through a signed, short-lived token
+    const downloadToken = generateDownloadToken({
+      licenseId: license.id,
+      userId: session.user.id,
+      releaseId: release?.id ?? null
     })
 
-    // Generate secure download token (valid for 1 hour)
-    const downloadToken = generateDownloadToken(license.id, session.user.id)
-    
-    // For demo purposes, return download URL
-    // In production, this should stream the file or redirect to a secure URL
     return NextResponse.json({
       success: true,
-      downloadUrl: license.product.downloadUrl,
+      downloadUrl: `/api/download/file?token=${downloadToken}`,
       downloadToken,
       productName: license.product.name,
+      release: release
+        ? {
+            id: release.id,
+            version: release.version,
+            channel: release.channel,
+            fileSize: release.fileSize,
+            sha256: release.sha256,
+            releasedAt: release.releasedAt
+          }
+        : null,
       licenseKey: license.licenseKey,
       expiresAt: license.expiresAt,
       message: 'Download authorized'
@@ -100,51 +136,3 @@ export async function GET(
     )
   }
 }
-
-// Generate secure download token
-function generateDownloadToken(licenseId: string, userId: string): string {
-  const crypto = require('crypto')
-  const timestamp = Date.now()
-  const expiryTime = timestamp + (60 * 60 * 1000) // 1 hour
-  
-  const data = `${licenseId}:${userId}:${expiryTime}`
-  const secret = process.env.DOWNLOAD_TOKEN_SECRET || 'default-secret'
-  const signature = crypto.createHmac('sha256', secret).update(data).digest('hex')
-  
-  return Buffer.from(`${data}:${signature}`).toString('base64')
-}
-
-// Verify download token
-export function verifyDownloadToken(token: string): {
-  isValid: boolean
-  licenseId?: string
-  userId?: string
-} {
-  try {
-    const crypto = require('crypto')
-    const decoded = Buffer.from(token, 'base64').toString('utf8')
-    const [licenseId, userId, expiryTime, signature] = decoded.split(':')
-    
-    // Check expiry
-    if (parseInt(expiryTime) < Date.now()) {
-      return { isValid: false }
-    }
-    
-    // Verify signature
-    const data = `${licenseId}:${userId}:${expiryTime}`
-    const secret = process.env.DOWNLOAD_TOKEN_SECRET || 'default-secret'
-    const expectedSignature = crypto.createHmac('sha256', secret).update(data).digest('hex')
-    
-    if (signature !== expectedSignature) {
-      return { isValid: false }
-    }
-    
-    return {
-      isValid: true,
-      licenseId,
-      userId
-    }
-  } catch (error) {
-    return { isValid: false }
-  }
-}
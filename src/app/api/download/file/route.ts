@@ -0,0 +1,169 @@
+import fs from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { getProductRelease } from '@/lib/db/releases'
+import { verifyDownloadToken } from '@/lib/download/download-token'
+import { checkDownloadQuota } from '@/lib/download/download-limits'
+import { getStoredFile, parseRangeHeader, getContentDisposition } from '@/lib/download/file-storage'
+
+// Stream a product build for a download token issued by /api/download/[licenseId] or /api/updates
+export async function GET(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Download token is required' },
+        { status: 400 }
+      )
+    }
+
+    const { isValid, payload } = verifyDownloadToken(token)
+    if (!isValid || !payload) {
+      return NextResponse.json(
+        { error: 'Download link is invalid or has expired' },
+        { status: 403 }
+      )
+    }
+
+    // The license may have been revoked since the token was issued
+    const license = await prisma.license.findFirst({
+      where: {
+        id: payload.licenseId,
+        userId: payload.userId,
+        status: 'ACTIVE'
+      },
+      include: {
+        product: {
+          select: {
+            name: true,
+            slug: true,
+            downloadUrl: true,
+            isActive: true
+          }
+        }
+      }
+    })
+
+    if (!license || !license.product.isActive) {
+      return NextResponse.json(
+        { error: 'License not found or not accessible' },
+        { status: 404 }
+      )
+    }
+
+    if (license.expiresAt && license.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: 'License has expired' },
+        { status: 400 }
+      )
+    }
+
+    const release = payload.releaseId
+      ? await getProductRelease(license.productId, payload.releaseId)
+      : null
+
+    if (payload.releaseId && !release) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      )
+    }
+
+    // Products without releases fall back to their single stored build
+    const storedPath = release?.filePath ?? license.product.downloadUrl
+    const file = storedPath ? await getStoredFile(storedPath) : null
+
+    if (!file) {
+      console.error('Download file missing:', storedPath, 'license:', license.id)
+      return NextResponse.json(
+        { error: 'File is not available for download' },
+        { status: 404 }
+      )
+    }
+
+    const downloadName = release
+      ? `${license.product.slug}-${release.version}${path.extname(file.fileName)}`
+      : file.fileName
+    const etag = release ? `"${release.sha256}"` : `"${file.size}-${file.modifiedAt.getTime()}"`
+
+    const headers = new Headers({
+      'Accept-Ranges': 'bytes',
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': getContentDisposition(downloadName),
+      'Cache-Control': 'private, no-store',
+      'ETag': etag,
+      'Last-Modified': file.modifiedAt.toUTCString()
+    })
+
+    if (release) {
+      headers.set('X-Checksum-SHA256', release.sha256)
+      headers.set('Digest', `sha-256=${Buffer.from(release.sha256, 'hex').toString('base64')}`)
+    }
+
+    if (file.size === 0) {
+      headers.set('Content-Length', '0')
+      return new NextResponse(null, { status: 200, headers })
+    }
+
+    // Only resume when the file hasn't changed since the partial download started
+    const ifRange = request.headers.get('if-range')
+    const range = !ifRange || ifRange === etag
+      ? parseRangeHeader(request.headers.get('range'), file.size)
+      : null
+
+    if (range === 'unsatisfiable') {
+      headers.set('Content-Range', `bytes */${file.size}`)
+      return new NextResponse(null, { status: 416, headers })
+    }
+
+    const start = range ? range.start : 0
+    const end = range ? range.end : file.size - 1
+
+    // A download is counted when it starts, resuming a partial one is free
+    if (start === 0) {
+      const clientIP = request.headers.get('x-forwarded-for') ||
+                      request.headers.get('x-real-ip') ||
+                      'unknown'
+
+      const quota = await checkDownloadQuota(license.id, clientIP)
+      if (!quota.allowed) {
+        return NextResponse.json(
+          { error: quota.error },
+          { status: 429 }
+        )
+      }
+
+      await prisma.download.create({
+        data: {
+          userId: license.userId,
+          productId: license.productId,
+          licenseId: license.id,
+          releaseId: release?.id,
+          ipAddress: clientIP,
+          userAgent: request.headers.get('user-agent') || 'unknown'
+        }
+      })
+    }
+
+    headers.set('Content-Length', String(end - start + 1))
+    if (range) {
+      headers.set('Content-Range', `bytes ${start}-${end}/${file.size}`)
+    }
+
+    const stream = fs.createReadStream(file.absolutePath, { start, end })
+
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+      status: range ? 206 : 200,
+      headers
+    })
+
+  } catch (error) {
+    console.error('Download file error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
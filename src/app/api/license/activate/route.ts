@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { licenseManager } from '@/lib/license/license-manager'
+import { rateLimit } from '@/lib/auth/route-protection'
+import {
+  authenticateClientRequest,
+  getClientApiSettings,
+  getClientResponseHeaders,
+  type SignedRequestResult,
+} from '@/lib/license/client-auth'
+import { z } from 'zod'
+
+const activateLicenseSchema = z.object({
+  licenseKey: z.string().min(1, 'License key is required'),
+  productId: z.string().optional(),
+  deviceName: z.string().max(100).optional(),
+  hardwareInfo: z.object({
+    cpuId: z.string().optional(),
+    motherboardId: z.string().optional(),
+    diskId: z.string().optional(),
+    macAddress: z.string().optional(),
+    systemUuid: z.string().optional()
+  })
+})
+
+// JSON response, signed for the request's nonce when the client signed it
+function clientResponse(data: unknown, status: number, auth: SignedRequestResult | null) {
+  const body = JSON.stringify(data)
+
+  return new NextResponse(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getClientResponseHeaders(auth, body)
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact bytes sent, so read the raw body first
+    const rawBody = await request.text()
+    const settings = await getClientApiSettings()
+
+    const auth = await authenticateClientRequest(request.headers, 'POST', new URL(request.url).pathname, rawBody, settings)
+    if (auth && !auth.success) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: 401 }
+      )
+    }
+
+    const body = JSON.parse(rawBody || '{}')
+    const { licenseKey, deviceName, hardwareInfo, ...data } = activateLicenseSchema.parse(body)
+
+    // Credentials belong to one product, which overrides anything in the body
+    if (auth?.success && data.productId && data.productId !== auth.credential.productId) {
+      return clientResponse({ success: false, error: 'License is not valid for this product' }, 400, auth)
+    }
+    const productId = auth?.success ? auth.credential.productId : data.productId
+
+    // Throttle per key so a single key can't be hammered from many IPs
+    const normalizedKey = licenseKey.replace(/\s+/g, '').toUpperCase()
+    if (!rateLimit(`license-activate-${normalizedKey}`, settings.requestsPerKeyPerMinute, 60000)) {
+      return clientResponse({ success: false, error: 'Too many activation requests for this license' }, 429, auth)
+    }
+
+    const clientIP = request.headers.get('x-forwarded-for') || 
+                    request.headers.get('x-real-ip') || 
+                    'unknown'
+
+    const result = await licenseManager.activateLicense(licenseKey, hardwareInfo, {
+      productId,
+      deviceName,
+      ipAddress: clientIP
+    })
+
+    if (result.success) {
+      return clientResponse({
+        success: true,
+        activation: result.activation,
+        activationsUsed: result.activationsUsed,
+        maxActivations: result.maxActivations,
+        message: 'License activated on this device'
+      }, 200, auth)
+    } else {
+      return clientResponse({
+        success: false,
+        error: result.error,
+        activationsUsed: result.activationsUsed,
+        maxActivations: result.maxActivations,
+        message: 'License activation failed'
+      }, 400, auth)
+    }
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('License activation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { leaseManager } from '@/lib/license/lease-manager'
+import { rateLimit } from '@/lib/auth/route-protection'
+import {
+  authenticateClientRequest,
+  getClientApiSettings,
+  getClientResponseHeaders,
+  type SignedRequestResult,
+} from '@/lib/license/client-auth'
+import { z } from 'zod'
+
+const heartbeatSchema = z.object({
+  leaseToken: z.string().min(1, 'Lease token is required')
+})
+
+// JSON response, signed for the request's nonce when the client signed it
+function clientResponse(data: unknown, status: number, auth: SignedRequestResult | null) {
+  const body = JSON.stringify(data)
+
+  return new NextResponse(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getClientResponseHeaders(auth, body)
+    }
+  })
+}
+
+// Renew a session lease
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact bytes sent, so read the raw body first
+    const rawBody = await request.text()
+    const settings = await getClientApiSettings()
+
+    const auth = await authenticateClientRequest(request.headers, 'POST', new URL(request.url).pathname, rawBody, settings)
+    if (auth && !auth.success) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: 401 }
+      )
+    }
+
+    const body = JSON.parse(rawBody || '{}')
+    const { leaseToken } = heartbeatSchema.parse(body)
+
+    // Throttle per lease, which stands in for the key here
+    if (!rateLimit(`license-heartbeat-${leaseToken}`, settings.requestsPerKeyPerMinute, 60000)) {
+      return clientResponse({ success: false, error: 'Too many heartbeat requests for this lease' }, 429, auth)
+    }
+
+    const clientIP = request.headers.get('x-forwarded-for') || 
+                    request.headers.get('x-real-ip') || 
+                    'unknown'
+
+    const result = await leaseManager.heartbeat(leaseToken, clientIP)
+
+    if (result.success) {
+      return clientResponse({
+        success: true,
+        lease: result.lease
+      }, 200, auth)
+    } else {
+      return clientResponse({
+        success: false,
+        error: result.error
+      }, 410, auth)
+    }
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('License lease heartbeat API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { leaseManager } from '@/lib/license/lease-manager'
+import { z } from 'zod'
+
+const releaseSchema = z.object({
+  leaseToken: z.string().min(1, 'Lease token is required')
+})
+
+// Release a session lease when the client shuts down
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { leaseToken } = releaseSchema.parse(body)
+
+    const released = await leaseManager.releaseLease(leaseToken)
+
+    return NextResponse.json({
+      success: true,
+      released
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('License lease release API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
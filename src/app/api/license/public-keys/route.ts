@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { licenseManager } from '@/lib/license/license-manager'
+
+// Public keys for verifying offline license tokens (JWK set)
+export async function GET() {
+  try {
+    return NextResponse.json(
+      { keys: licenseManager.getLicenseTokenPublicKeys() },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=3600'
+        }
+      }
+    )
+  } catch (error) {
+    console.error('License public keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { licenseManager } from '@/lib/license/license-manager'
+import { rateLimit } from '@/lib/auth/route-protection'
+import { z } from 'zod'
+
+const revocationQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+  productId: z.string().optional()
+})
+
+// GET /api/license/v1/revocations?since=<serial> - Signed list of revoked and suspended licenses
+export async function GET(request: NextRequest) {
+  try {
+    const clientIP = request.headers.get('x-forwarded-for') || 
+                    request.headers.get('x-real-ip') || 
+                    'unknown'
+
+    if (!rateLimit(`license-revocations-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { since, productId } = revocationQuerySchema.parse({
+      since: searchParams.get('since') ?? undefined,
+      productId: searchParams.get('productId') ?? undefined
+    })
+
+    const { list, token } = await licenseManager.getSignedRevocationList(since ?? null, productId)
+
+    // The token is what clients should verify and cache; the rest is for quick checks
+    return NextResponse.json(
+      {
+        serial: list.serial,
+        full: list.since === null,
+        count: list.entries.length,
+        token
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=60'
+        }
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('License revocation list error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { licenseManager } from '@/lib/license/license-manager'
+import { rateLimit } from '@/lib/auth/route-protection'
+import {
+  authenticateClientRequest,
+  getClientApiSettings,
+  getClientResponseHeaders,
+  type SignedRequestResult,
+} from '@/lib/license/client-auth'
 import { z } from 'zod'
 
 const validateLicenseSchema = z.object({
@@ -14,33 +21,83 @@ const validateLicenseSchema = z.object({
   }).optional()
 })
 
+// JSON response, signed for the request's nonce when the client signed it
+function clientResponse(data: unknown, status: number, auth: SignedRequestResult | null) {
+  const body = JSON.stringify(data)
+
+  return new NextResponse(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getClientResponseHeaders(auth, body)
+    }
+  })
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { licenseKey, productId, hardwareInfo } = validateLicenseSchema.parse(body)
+    // The signature covers the exact bytes sent, so read the raw body first
+    const rawBody = await request.text()
+    const settings = await getClientApiSettings()
+
+    const auth = await authenticateClientRequest(request.headers, 'POST', new URL(request.url).pathname, rawBody, settings)
+    if (auth && !auth.success) {
+      return NextResponse.json(
+        { valid: false, error: auth.error },
+        { status: 401 }
+      )
+    }
+
+    const body = JSON.parse(rawBody || '{}')
+    const { licenseKey, hardwareInfo, ...data } = validateLicenseSchema.parse(body)
+
+    // Credentials belong to one product, which overrides anything in the body
+    if (auth?.success && data.productId && data.productId !== auth.credential.productId) {
+      return clientResponse({ valid: false, error: 'License is not valid for this product' }, 400, auth)
+    }
+    const productId = auth?.success ? auth.credential.productId : data.productId
+
+    // Throttle per key so a single key can't be hammered from many IPs
+    const normalizedKey = licenseKey.replace(/\s+/g, '').toUpperCase()
+    if (!rateLimit(`license-validate-${normalizedKey}`, settings.validationsPerKeyPerMinute, 60000)) {
+      return clientResponse({ valid: false, error: 'Too many validation requests for this license' }, 429, auth)
+    }
+
+    const clientIP = request.headers.get('x-forwarded-for') || 
+                    request.headers.get('x-real-ip') || 
+                    'unknown'
 
-    // Validate license
+    // Validate license and issue an offline token
     const result = await licenseManager.validateLicense(
       licenseKey,
       productId,
-      hardwareInfo
+      hardwareInfo,
+      { issueToken: true, ipAddress: clientIP, requireActivation: settings.requireDeviceActivation }
     )
 
     if (result.isValid) {
-      return NextResponse.json({
+      return clientResponse({
         valid: true,
         license: result.license,
+        token: result.token,
         message: 'License is valid'
-      })
+      }, 200, auth)
     } else {
-      return NextResponse.json({
+      return clientResponse({
         valid: false,
         error: result.error,
         message: 'License validation failed'
-      }, { status: 400 })
+      }, 400, auth)
     }
 
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Validation failed', details: error.errors },
@@ -57,8 +114,18 @@ export async function POST(request: NextRequest) {
 }
 
 // GET endpoint for simple license check
+// Deprecated: the key travels in the URL and the request can't be signed.
+// Only served while the allowGetValidation setting is on.
 export async function GET(request: NextRequest) {
   try {
+    const settings = await getClientApiSettings()
+    if (!settings.allowGetValidation) {
+      return NextResponse.json(
+        { error: 'GET validation is no longer supported. Use a signed POST request.' },
+        { status: 410 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
     const licenseKey = searchParams.get('key')
     const productId = searchParams.get('productId')
@@ -70,9 +137,20 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const normalizedKey = licenseKey.replace(/\s+/g, '').toUpperCase()
+    if (!rateLimit(`license-validate-${normalizedKey}`, settings.validationsPerKeyPerMinute, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many validation requests for this license' },
+        { status: 429 }
+      )
+    }
+
+    // Carries no hardware info, so it fails while device activation is required
     const result = await licenseManager.validateLicense(
       licenseKey,
-      productId || undefined
+      productId || undefined,
+      undefined,
+      { requireActivation: settings.requireDeviceActivation }
     )
 
     return NextResponse.json({
@@ -84,6 +162,8 @@ export async function GET(request: NextRequest) {
         expiresAt: result.license.expiresAt,
         status: result.license.status
       } : null
+    }, {
+      headers: { Deprecation: 'true' }
     })
 
   } catch (error) {
@@ -1,43 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyCallback } from '@/lib/payment/duitku'
+import { Prisma } from '@prisma/client'
+import { describeCallbackMismatches, findCallbackMismatches, getCallbackProvider } from '@/lib/payment'
 import { prisma } from '@/lib/db'
-import { generateLicenseKey } from '@/lib/utils'
-import { sendOrderConfirmationEmail } from '@/lib/email/service'
 import { notificationService } from '@/lib/notifications/notification-service'
+import { orderLifecycle } from '@/lib/orders/order-lifecycle'
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const {
-      merchantCode,
-      amount,
-      merchantOrderId,
-      productDetail,
-      additionalParam,
-      paymentCode,
-      resultCode,
-      merchantUserId,
-      reference,
-      signature
-    } = body
-
-    // Verify callback signature
-    if (!verifyCallback(merchantCode, amount, merchantOrderId, signature)) {
+    // Duitku posts form fields; accept JSON too
+    const body: Record<string, string> = request.headers.get('content-type')?.includes('application/json')
+      ? await request.json()
+      : Object.fromEntries(new URLSearchParams(await request.text()))
+
+    // Verify callback signature with the provider that sent it, not the current one
+    const provider = getCallbackProvider(body)
+    const callback = provider.verifyCallback(body)
+    if (!callback) {
       console.error('Invalid callback signature')
       return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
     }
 
+    const { orderId: merchantOrderId, amount, paymentCode, resultCode, reference } = callback
+
     // Find order
     const order = await prisma.order.findUnique({
       where: { id: merchantOrderId },
-      include: {
-        items: {
-          include: {
-            product: true
-          }
-        },
-        user: true
-      }
+      select: { id: true, userId: true, total: true, status: true }
     })
 
     if (!order) {
@@ -45,111 +33,140 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 })
     }
 
-    // Check if payment is successful
-    if (resultCode === '00') {
-      // Payment successful
-      await prisma.order.update({
-        where: { id: merchantOrderId },
-        data: {
-          status: 'PAID',
-          paymentData: JSON.stringify({
-            ...JSON.parse(order.paymentData || '{}'),
-            paymentCode,
-            reference,
-            paidAt: new Date().toISOString()
-          })
+    // Record the callback first. Providers retry until they get a 200, so the
+    // same (provider, reference, status) arriving again is a replay.
+    const eventData = {
+      orderId: order.id,
+      provider: provider.name,
+      reference: reference || merchantOrderId,
+      status: callback.status,
+      amount,
+      resultCode,
+      payload: body
+    }
+
+    let event
+    try {
+      event = await prisma.paymentEvent.create({ data: eventData })
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error
+      }
+
+      event = await prisma.paymentEvent.findUniqueOrThrow({
+        where: {
+          provider_reference_status: {
+            provider: eventData.provider,
+            reference: eventData.reference,
+            status: eventData.status
+          }
         }
       })
 
-      // Generate licenses for each product
-      const licenses = []
-      for (const item of order.items) {
-        for (let i = 0; i < item.quantity; i++) {
-          const licenseKey = generateLicenseKey()
-          
-          const license = await prisma.license.create({
-            data: {
-              userId: order.userId,
-              productId: item.productId,
-              licenseKey,
-              status: 'ACTIVE',
-              // Set expiry date if product has duration
-              expiresAt: item.product.duration
-                ? new Date(Date.now() + item.product.duration * 24 * 60 * 60 * 1000)
-                : null
-            },
-            include: {
-              product: true
-            }
-          })
-          
-          licenses.push(license)
-        }
+      if (event.processedAt) {
+        console.log('Duplicate payment callback ignored for order:', merchantOrderId)
+        return NextResponse.json({ success: true, duplicate: true })
       }
+      // An earlier delivery failed before committing; process it again
+    }
+
+    const eventId = event.id
+
+    // The signature is genuine but the callback must also fit the order
+    const mismatches = findCallbackMismatches(callback, order, provider)
+    if (mismatches.length > 0) {
+      const summary = describeCallbackMismatches(mismatches)
+      console.error('Payment callback failed verification:', merchantOrderId, summary, JSON.stringify(body))
+
+      const hold = await prisma.$transaction(async (tx) => {
+        // Paid or refunded orders can't be held; their licenses are already live
+        const result = await orderLifecycle.applyTransition(tx, order.id, 'NEEDS_REVIEW', {
+          reason: `${callback.status} callback did not match the order (${summary})`,
+          paymentData: {
+            reviewReason: summary,
+            reviewEventId: eventId
+          }
+        })
 
-      // Send email notification with license keys
-      try {
-        const customerInfo = JSON.parse(order.paymentData || '{}').customerInfo || {}
-
-        await sendOrderConfirmationEmail({
-          customerEmail: order.user.email,
-          customerName: customerInfo.name || order.user.name || 'Customer',
-          orderId: order.id,
-          total: order.total,
-          items: order.items.map(item => ({
-            name: item.product.name,
-            quantity: item.quantity,
-            price: item.price
-          })),
-          licenses: licenses.map(license => ({
-            productName: license.product?.name || 'Product',
-            licenseKey: license.licenseKey,
-            downloadUrl: license.product?.downloadUrl
-          })),
-          orderDate: order.createdAt
+        await tx.paymentEvent.update({
+          where: { id: eventId },
+          data: {
+            processedAt: new Date(),
+            note: `Rejected: ${summary}`
+          }
+        })
+
+        await tx.securityLog.create({
+          data: {
+            userId: order.userId,
+            action: 'PAYMENT_CALLBACK_REJECTED',
+            details: JSON.stringify({
+              orderId: order.id,
+              provider: provider.name,
+              mismatches,
+              payload: body
+            }),
+            ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+          }
         })
 
-        console.log('Order confirmation email sent to:', order.user.email)
-      } catch (emailError) {
-        console.error('Failed to send order confirmation email:', emailError)
+        return result
+      })
+
+      if (hold.success) {
+        await orderLifecycle.runSideEffects(hold.transition)
+      } else {
+        await notificationService.notifyAdmins(
+          'Payment Callback Needs Review',
+          `A ${callback.status} callback for ${order.status.toLowerCase()} order ${merchantOrderId} did not match the order (${summary}). ` +
+            'Check it against the provider dashboard.',
+          { orderId: merchantOrderId, paymentEventId: eventId, mismatches: mismatches.map(mismatch => mismatch.field) }
+        )
       }
 
-      // Send payment success notification
-      await notificationService.notifyPaymentSuccess(
-        order.userId,
-        merchantOrderId,
-        parseFloat(amount)
-      )
+      // Acknowledge so the provider stops retrying; the ledger keeps the payload
+      return NextResponse.json({ success: true, quarantined: true })
+    }
 
-      console.log('Payment successful for order:', merchantOrderId)
-      console.log('Generated licenses:', licenses.length)
+    const newStatus = callback.status === 'PAID'
+      ? 'PAID'
+      : callback.status === 'EXPIRED' ? 'CANCELLED' : 'FAILED'
+
+    // Status change, license issuance and the ledger entry commit together
+    const result = await prisma.$transaction(async (tx) => {
+      const transition = await orderLifecycle.applyTransition(tx, order.id, newStatus, {
+        // Only a pending order may move; anything else was settled already
+        from: ['PENDING'],
+        reason: newStatus === 'CANCELLED' ? 'Payment expired' : newStatus === 'FAILED' ? `Payment failed with code: ${resultCode}` : undefined,
+        paymentData: {
+          paymentCode,
+          reference,
+          ...(newStatus === 'PAID'
+            ? { paidAt: new Date().toISOString() }
+            : { failedAt: new Date().toISOString(), failureReason: resultCode })
+        }
+      })
 
-    } else {
-      // Payment failed
-      await prisma.order.update({
-        where: { id: merchantOrderId },
+      await tx.paymentEvent.update({
+        where: { id: eventId },
         data: {
-          status: 'FAILED',
-          paymentData: JSON.stringify({
-            ...JSON.parse(order.paymentData || '{}'),
-            paymentCode,
-            reference,
-            failedAt: new Date().toISOString(),
-            failureReason: resultCode
-          })
+          processedAt: new Date(),
+          note: transition.success ? null : transition.error
         }
       })
 
-      // Send payment failed notification
-      await notificationService.notifyPaymentFailed(
-        order.userId,
-        merchantOrderId,
-        `Payment failed with code: ${resultCode}`
-      )
+      return transition
+    }, { timeout: 15000 })
 
-      console.log('Payment failed for order:', merchantOrderId, 'Result code:', resultCode)
+    if (!result.success) {
+      console.log('Payment callback ignored:', merchantOrderId, callback.status, result.error)
+      return NextResponse.json({ success: true, ignored: true })
     }
 
+    await orderLifecycle.runSideEffects(result.transition)
+
+    console.log(`Payment ${callback.status.toLowerCase()} for order:`, merchantOrderId, 'Result code:', resultCode)
+
     return NextResponse.json({ success: true })
 
   } catch (error) {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/auth-options'
+import { prisma } from '@/lib/db'
+import { getPaymentProviderName, mockPaymentProvider } from '@/lib/payment'
+import { z } from 'zod'
+
+const mockOutcomeSchema = z.object({
+  outcome: z.enum(['pay', 'fail', 'expire'])
+})
+
+// Settle a mock payment by sending the callback a real gateway would
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    if (!mockPaymentProvider || getPaymentProviderName() !== 'mock') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { outcome } = mockOutcomeSchema.parse(body)
+
+    // Only the customer who placed the order can settle it
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: session.user.id
+      },
+      select: {
+        id: true,
+        total: true,
+        status: true,
+        paymentId: true,
+        paymentMethod: true
+      }
+    })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    // Goes through the public callback endpoint, signature check included
+    const callbackResponse = await fetch(new URL('/api/payment/callback', request.url), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(mockPaymentProvider.buildCallback(order, outcome)).toString()
+    })
+
+    const callbackResult = await callbackResponse.json().catch(() => null)
+
+    return NextResponse.json(
+      {
+        success: callbackResponse.ok,
+        callbackStatus: callbackResponse.status,
+        callbackResult
+      },
+      { status: callbackResponse.ok ? 200 : 502 }
+    )
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Mock payment error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
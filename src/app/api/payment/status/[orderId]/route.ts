@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth/utils'
-import { checkTransactionStatus } from '@/lib/payment/duitku'
+import { getPaymentProvider } from '@/lib/payment'
 import { prisma } from '@/lib/db'
 
 export async function GET(
@@ -34,16 +34,16 @@ export async function GET(
       return NextResponse.json({ error: 'Order not found' }, { status: 404 })
     }
 
-    // Check transaction status with Duitku
-    let duitkuStatus = null
+    // Check transaction status with the payment provider
+    let providerStatus = null
     try {
-      duitkuStatus = await checkTransactionStatus(orderId)
+      providerStatus = await getPaymentProvider().getPaymentStatus(orderId)
     } catch (error) {
-      console.error('Failed to check Duitku status:', error)
+      console.error('Failed to check payment provider status:', error)
     }
 
-    // Parse payment data
-    const paymentData = order.paymentData ? JSON.parse(order.paymentData) : {}
+    // Payment data is stored as JSON by checkout
+    const paymentData = (order.paymentData ?? {}) as Record<string, string | undefined>
 
     return NextResponse.json({
       orderId: order.id,
@@ -66,7 +66,7 @@ export async function GET(
         quantity: item.quantity,
         price: item.price
       })),
-      duitkuStatus
+      providerStatus
     })
 
   } catch (error) {
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rateLimit } from '@/lib/auth/route-protection'
+import { getProductReleases } from '@/lib/db/releases'
+
+// Release history of a product, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    if (!rateLimit(`releases-get-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const channel = searchParams.get('channel')?.toUpperCase()
+
+    const releases = await getProductReleases(
+      params.productId,
+      channel === 'STABLE' || channel === 'BETA' ? channel : undefined
+    )
+
+    return NextResponse.json({ releases })
+
+  } catch (error) {
+    console.error('Get releases error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/auth-options'
+import { prisma } from '@/lib/db/prisma'
+import { licenseManager } from '@/lib/license/license-manager'
+import { z } from 'zod'
+
+const claimTrialSchema = z.object({
+  hardwareInfo: z.object({
+    cpuId: z.string().optional(),
+    motherboardId: z.string().optional(),
+    diskId: z.string().optional(),
+    macAddress: z.string().optional(),
+    systemUuid: z.string().optional()
+  }).optional()
+})
+
+// Claim a trial license for a trial-eligible product
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { hardwareInfo } = claimTrialSchema.parse(body)
+
+    const clientIP = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'unknown'
+
+    const result = await licenseManager.claimTrial(session.user.id, params.productId, {
+      hardwareInfo,
+      ipAddress: clientIP
+    })
+
+    if (!result.success || !result.license) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    await prisma.securityLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'TRIAL_CLAIMED',
+        details: `Trial license ${result.license.licenseKey} claimed for product ${params.productId}`,
+        ipAddress: clientIP,
+        userAgent: request.headers.get('user-agent')
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      license: result.license,
+      message: 'Trial license claimed'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Claim trial error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
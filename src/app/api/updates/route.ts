@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { rateLimit } from '@/lib/auth/route-protection'
+import { licenseManager } from '@/lib/license/license-manager'
+import { compareVersions, getLatestRelease } from '@/lib/db/releases'
+import { generateDownloadToken } from '@/lib/download/download-token'
+
+const updateCheckSchema = z.object({
+  productId: z.string().min(1, 'Product ID is required'),
+  version: z.string().min(1, 'Current version is required'),
+  channel: z.enum(['STABLE', 'BETA']).default('STABLE'),
+})
+
+// Update check for installed clients. The license key is sent in the
+// X-License-Key header so it doesn't end up in access logs.
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientIP = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'unknown'
+    if (!rateLimit(`updates-${clientIP}`, 30, 60000)) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429 }
+      )
+    }
+
+    const licenseKey = request.headers.get('x-license-key')
+    if (!licenseKey) {
+      return NextResponse.json(
+        { error: 'License key is required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { productId, version, channel } = updateCheckSchema.parse({
+      productId: searchParams.get('productId'),
+      version: searchParams.get('version'),
+      channel: searchParams.get('channel')?.toUpperCase() || undefined,
+    })
+
+    // Same status, expiry and product checks as license validation
+    const validation = await licenseManager.validateLicense(licenseKey, productId)
+    if (!validation.isValid || !validation.license) {
+      return NextResponse.json(
+        { updateAvailable: false, error: validation.error },
+        { status: 403 }
+      )
+    }
+
+    const license = validation.license
+
+    // Newest release the license's update window covers, and the newest overall
+    const [release, latest] = await Promise.all([
+      getLatestRelease(productId, channel, license.updatesUntil),
+      license.updatesUntil ? getLatestRelease(productId, channel) : null
+    ])
+
+    if (!release || compareVersions(release.version, version) <= 0) {
+      const notEntitled = latest && compareVersions(latest.version, version) > 0
+
+      return NextResponse.json({
+        updateAvailable: false,
+        currentVersion: version,
+        latestVersion: notEntitled ? latest.version : release?.version ?? version,
+        updatesUntil: license.updatesUntil,
+        message: notEntitled
+          ? `Version ${latest.version} was released after your update window ended`
+          : 'Up to date'
+      })
+    }
+
+    // Checking for updates isn't a download, the quota applies when the link is used
+    const downloadToken = generateDownloadToken({
+      licenseId: license.id,
+      userId: license.userId,
+      releaseId: release.id
+    })
+
+    return NextResponse.json({
+      updateAvailable: true,
+      currentVersion: version,
+      release: {
+        id: release.id,
+        version: release.version,
+        channel: release.channel,
+        changelog: release.changelog,
+        fileSize: release.fileSize,
+        sha256: release.sha256,
+        releasedAt: release.releasedAt
+      },
+      downloadUrl: `/api/download/file?token=${downloadToken}`,
+      downloadToken,
+      updatesUntil: license.updatesUntil,
+      message: `Version ${release.version} is available`
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Update check error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
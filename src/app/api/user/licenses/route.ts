@@ -40,7 +40,6 @@ export async function GET(request: NextRequest) {
             name: true,
             image: true,
             category: true,
-            downloadUrl: true,
             version: true
           }
         }
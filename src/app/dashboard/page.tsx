@@ -6,9 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Download, Package, CreditCard, Star, Calendar, Shield, Settings } from 'lucide-react'
+import { Package, CreditCard, Star, Calendar, Shield, Settings, RefreshCw } from 'lucide-react'
 import Link from 'next/link'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import { LicenseDownloadButton } from '@/components/dashboard/license-download-button'
 
 export const metadata: Metadata = {
   title: 'Dashboard - NusantaraHax',
@@ -161,14 +162,16 @@ export default async function DashboardPage() {
                               Expires: {formatDate(license.expiresAt)}
                             </div>
                           )}
+                          {license.updatesUntil && (
+                            <div className="flex items-center">
+                              <RefreshCw className="h-4 w-4 mr-1" />
+                              {license.updatesUntil > new Date() ? 'Updates until' : 'Updates ended'}:{' '}
+                              {formatDate(license.updatesUntil)}
+                            </div>
+                          )}
                         </div>
-                        {license.product.downloadUrl && license.status === 'ACTIVE' && (
-                          <Button size="sm" asChild>
-                            <Link href={license.product.downloadUrl}>
-                              <Download className="h-4 w-4 mr-2" />
-                              Download
-                            </Link>
-                          </Button>
+                        {license.status === 'ACTIVE' && (
+                          <LicenseDownloadButton licenseId={license.id} />
                         )}
                       </div>
                     </CardContent>
@@ -0,0 +1,57 @@
+import { Metadata } from 'next'
+import { notFound, redirect } from 'next/navigation'
+import { getCurrentUser } from '@/lib/auth/utils'
+import { prisma } from '@/lib/db/prisma'
+import { getPaymentProviderName, mockPaymentProvider } from '@/lib/payment'
+import { MockGatewayContent } from '@/components/payment/mock-gateway-content'
+
+interface MockGatewayPageProps {
+  params: {
+    orderId: string
+  }
+}
+
+export const metadata: Metadata = {
+  title: 'Mock Payment Gateway - NusantaraHax',
+  robots: { index: false },
+}
+
+// Stands in for the gateway's hosted payment page while PAYMENT_PROVIDER is mock
+export default async function MockGatewayPage({ params }: MockGatewayPageProps) {
+  if (!mockPaymentProvider || getPaymentProviderName() !== 'mock') {
+    notFound()
+  }
+
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/auth/signin')
+  }
+
+  const order = await prisma.order.findFirst({
+    where: {
+      id: params.orderId,
+      userId: user.id
+    },
+    select: {
+      id: true,
+      total: true,
+      status: true,
+      paymentId: true,
+      paymentMethod: true
+    }
+  })
+
+  if (!order) {
+    notFound()
+  }
+
+  return (
+    <MockGatewayContent
+      orderId={order.id}
+      total={order.total}
+      status={order.status}
+      reference={order.paymentId}
+      paymentMethod={order.paymentMethod}
+    />
+  )
+}
@@ -11,7 +11,8 @@ import {
   TrendingDown,
   Activity,
   Eye,
-  MoreHorizontal
+  MoreHorizontal,
+  MonitorPlay
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -77,6 +78,16 @@ interface AnalyticsData {
     totalSold: number
     orderCount: number
   }>
+  activeSessions: {
+    totalSessions: number
+    totalUsers: number
+    byProduct: Array<{
+      productId: string
+      productName: string
+      sessions: number
+      users: number
+    }>
+  }
   charts: {
     userGrowth: Array<{ date: string; count: number }>
     orderStatus: Array<{ status: string; count: number }>
@@ -117,14 +128,17 @@ export function AdminDashboard({ user }: DashboardProps) {
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'completed':
+      case 'paid':
         return 'bg-green-100 text-green-800'
       case 'pending':
         return 'bg-yellow-100 text-yellow-800'
+      case 'failed':
       case 'cancelled':
         return 'bg-red-100 text-red-800'
-      case 'processing':
-        return 'bg-blue-100 text-blue-800'
+      case 'refunded':
+        return 'bg-purple-100 text-purple-800'
+      case 'needs_review':
+        return 'bg-orange-100 text-orange-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -353,6 +367,40 @@ export function AdminDashboard({ user }: DashboardProps) {
             </CardContent>
           </Card>
         </div>
+
+        {/* Active Users Now */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Active Users Now
+              <div className="flex items-center text-sm font-normal text-gray-500">
+                <MonitorPlay className="h-4 w-4 mr-2" />
+                {analytics.activeSessions.totalUsers} users · {analytics.activeSessions.totalSessions} sessions
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {analytics.activeSessions.byProduct.length === 0 ? (
+              <p className="text-sm text-gray-500">No products are in use right now</p>
+            ) : (
+              <div className="space-y-4">
+                {analytics.activeSessions.byProduct.map((product) => (
+                  <div key={product.productId} className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">{product.productName}</p>
+                    <div className="text-right">
+                      <p className="text-sm font-medium">
+                        {product.users} user{product.users !== 1 ? 's' : ''}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {product.sessions} session{product.sessions !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </AdminLayout>
   )
@@ -9,6 +9,7 @@ import {
   Users,
   Package,
   ShoppingCart,
+  KeyRound,
   Settings,
   FileText,
   BarChart3,
@@ -69,6 +70,12 @@ const navigation = [
     icon: ShoppingCart,
     current: false,
   },
+  {
+    name: 'Licenses',
+    href: '/admin/licenses',
+    icon: KeyRound,
+    current: false,
+  },
   {
     name: 'Content',
     href: '/admin/content',
@@ -0,0 +1,360 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRightLeft,
+  Ban,
+  CalendarMinus,
+  CalendarPlus,
+  Clock,
+  Key,
+  Monitor,
+  Pause,
+  Power,
+  PowerOff,
+  RotateCcw,
+  ShieldAlert,
+} from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { AdminLayout } from './admin-layout'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { formatDate } from '@/lib/utils'
+import Link from 'next/link'
+
+interface User {
+  id: string
+  email: string
+  name: string
+  role: string
+  avatar?: string | null
+}
+
+type LicenseEventType =
+  | 'ISSUED'
+  | 'ACTIVATED'
+  | 'DEACTIVATED'
+  | 'HARDWARE_RESET'
+  | 'SUSPENDED'
+  | 'REVOKED'
+  | 'REACTIVATED'
+  | 'EXTENDED'
+  | 'EXTENSION_REVERSED'
+  | 'EXPIRED'
+  | 'TRANSFERRED'
+  | 'VALIDATION_FAILED'
+
+interface LicenseEvent {
+  id: string
+  type: LicenseEventType
+  actorType: 'SYSTEM' | 'USER' | 'ADMIN' | 'CLIENT'
+  ipAddress: string | null
+  metadata: Record<string, string | number | boolean | null> | null
+  createdAt: string
+  actor: {
+    name: string | null
+    email: string
+  } | null
+}
+
+interface SharingFlag {
+  id: string
+  status: 'OPEN' | 'DISMISSED' | 'SUSPENDED'
+  reason: string
+  distinctIps: number
+  distinctUserAgents: number
+  createdAt: string
+}
+
+interface LicenseDetail {
+  license: {
+    id: string
+    licenseKey: string
+    status: string
+    isTrial: boolean
+    expiresAt: string | null
+    updatesUntil: string | null
+    createdAt: string
+    product: {
+      name: string
+      maxActivations: number
+    }
+    user: {
+      name: string | null
+      email: string
+    }
+    activations: Array<{
+      id: string
+      deviceName: string | null
+      ipAddress: string | null
+      lastSeenAt: string
+      createdAt: string
+    }>
+    sharingFlags: SharingFlag[]
+    events: LicenseEvent[]
+  }
+  stats: {
+    type: 'TRIAL' | 'PAID'
+    downloadCount: number
+    lastDownload: {
+      date: string
+      ipAddress: string | null
+    } | null
+  }
+}
+
+interface AdminLicenseDetailPageProps {
+  user: User
+  licenseId: string
+}
+
+const eventConfig: Record<LicenseEventType, { label: string, icon: typeof Key, color: string }> = {
+  ISSUED: { label: 'Issued', icon: Key, color: 'bg-blue-100 text-blue-600' },
+  ACTIVATED: { label: 'Activated on device', icon: Power, color: 'bg-green-100 text-green-600' },
+  DEACTIVATED: { label: 'Deactivated from device', icon: PowerOff, color: 'bg-gray-100 text-gray-600' },
+  HARDWARE_RESET: { label: 'Hardware binding reset', icon: Monitor, color: 'bg-orange-100 text-orange-600' },
+  SUSPENDED: { label: 'Suspended', icon: Pause, color: 'bg-orange-100 text-orange-600' },
+  REVOKED: { label: 'Revoked', icon: Ban, color: 'bg-red-100 text-red-600' },
+  REACTIVATED: { label: 'Reactivated', icon: RotateCcw, color: 'bg-green-100 text-green-600' },
+  EXTENDED: { label: 'Extended', icon: CalendarPlus, color: 'bg-blue-100 text-blue-600' },
+  EXTENSION_REVERSED: { label: 'Extension reversed', icon: CalendarMinus, color: 'bg-orange-100 text-orange-600' },
+  EXPIRED: { label: 'Expired', icon: Clock, color: 'bg-gray-100 text-gray-600' },
+  TRANSFERRED: { label: 'Transferred', icon: ArrowRightLeft, color: 'bg-purple-100 text-purple-600' },
+  VALIDATION_FAILED: { label: 'Validation failed', icon: AlertTriangle, color: 'bg-yellow-100 text-yellow-700' },
+}
+
+const actorLabels: Record<LicenseEvent['actorType'], string> = {
+  SYSTEM: 'System',
+  USER: 'Customer',
+  ADMIN: 'Admin',
+  CLIENT: 'Client app',
+}
+
+function describeEvent(event: LicenseEvent) {
+  const metadata = event.metadata || {}
+
+  switch (event.type) {
+    case 'ISSUED':
+      return metadata.orderId ? `Order ${metadata.orderId}` : metadata.trial ? 'Trial claim' : null
+    case 'ACTIVATED':
+    case 'DEACTIVATED':
+      return metadata.deviceName ? String(metadata.deviceName) : null
+    case 'HARDWARE_RESET':
+      return `${metadata.devicesCleared} device${metadata.devicesCleared !== 1 ? 's' : ''} cleared`
+    case 'EXTENDED':
+      return `+${metadata.extensionDays} days, now expires ${formatDate(String(metadata.newExpiry))}`
+    case 'EXTENSION_REVERSED':
+      return `-${metadata.reversedDays} days, now expires ${formatDate(String(metadata.newExpiry))}`
+    case 'VALIDATION_FAILED':
+      return metadata.error ? String(metadata.error) : null
+    default:
+      return metadata.reason ? String(metadata.reason) : null
+  }
+}
+
+export function AdminLicenseDetailPage({ licenseId }: AdminLicenseDetailPageProps) {
+  const [detail, setDetail] = useState<LicenseDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    fetchLicense()
+  }, [licenseId])
+
+  const fetchLicense = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/admin/licenses/${licenseId}`)
+
+      if (response.ok) {
+        setDetail(await response.json())
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to fetch license')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading || !detail) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          ) : (
+            <p className="text-gray-500">License not found</p>
+          )}
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  const { license, stats } = detail
+  const openFlags = license.sharingFlags.filter(flag => flag.status === 'OPEN')
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/admin/licenses" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to licenses
+          </Link>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900 font-mono">{license.licenseKey}</h1>
+            <Badge variant={license.status === 'ACTIVE' ? 'default' : 'secondary'}>
+              {license.status}
+            </Badge>
+            {license.isTrial && <Badge variant="outline">Trial</Badge>}
+          </div>
+          <p className="text-gray-600">
+            {license.product.name} · {license.user.name || license.user.email} ({license.user.email})
+          </p>
+        </div>
+
+        {openFlags.length > 0 && (
+          <Card className="border-orange-200 bg-orange-50">
+            <CardContent className="pt-6">
+              <div className="flex items-start">
+                <ShieldAlert className="h-5 w-5 text-orange-600 mr-3 mt-0.5" />
+                <div className="space-y-1">
+                  <p className="font-medium text-orange-900">Possible license sharing</p>
+                  {openFlags.map(flag => (
+                    <p key={flag.id} className="text-sm text-orange-800">
+                      {flag.reason} ({formatDistanceToNow(new Date(flag.createdAt), { addSuffix: true })})
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Issued</p>
+              <p className="text-lg font-semibold">{formatDate(license.createdAt)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Expires</p>
+              <p className="text-lg font-semibold">
+                {license.expiresAt ? formatDate(license.expiresAt) : 'Never'}
+              </p>
+              {license.updatesUntil && (
+                <p className="text-xs text-gray-500">Updates until {formatDate(license.updatesUntil)}</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Devices</p>
+              <p className="text-lg font-semibold">
+                {license.activations.length}/{license.product.maxActivations}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Downloads</p>
+              <p className="text-lg font-semibold">{stats.downloadCount}</p>
+              {stats.lastDownload && (
+                <p className="text-xs text-gray-500">
+                  Last {formatDistanceToNow(new Date(stats.lastDownload.date), { addSuffix: true })}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Timeline */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {license.events.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No events recorded yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {license.events.map((event, index) => {
+                    const config = eventConfig[event.type]
+                    const Icon = config.icon
+                    const description = describeEvent(event)
+
+                    return (
+                      <motion.div
+                        key={event.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.3, delay: index * 0.03 }}
+                        className="flex items-start"
+                      >
+                        <div className={`p-2 rounded-full mr-3 ${config.color}`}>
+                          <Icon className="h-4 w-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between">
+                            <p className="font-medium text-gray-900">{config.label}</p>
+                            <span className="text-xs text-gray-500">
+                              {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                            </span>
+                          </div>
+                          {description && <p className="text-sm text-gray-600">{description}</p>}
+                          <p className="text-xs text-gray-400">
+                            {event.actor ? `${actorLabels[event.actorType]} ${event.actor.email}` : actorLabels[event.actorType]}
+                            {event.ipAddress && ` · ${event.ipAddress}`}
+                          </p>
+                        </div>
+                      </motion.div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Devices */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Devices</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {license.activations.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Not activated on any device</p>
+              ) : (
+                <div className="space-y-4">
+                  {license.activations.map(activation => (
+                    <div key={activation.id} className="flex items-start">
+                      <Monitor className="h-4 w-4 text-gray-400 mr-3 mt-1" />
+                      <div>
+                        <p className="font-medium text-gray-900">{activation.deviceName || 'Unnamed device'}</p>
+                        <p className="text-xs text-gray-500">
+                          Last seen {formatDistanceToNow(new Date(activation.lastSeenAt), { addSuffix: true })}
+                          {activation.ipAddress && ` · ${activation.ipAddress}`}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
@@ -0,0 +1,851 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import {
+  Ban,
+  CalendarPlus,
+  CheckCircle,
+  Clock,
+  Eye,
+  Key,
+  MoreHorizontal,
+  Pause,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  ShieldAlert,
+  ShieldCheck,
+  XCircle,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AdminLayout } from './admin-layout'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { formatDate } from '@/lib/utils'
+import Link from 'next/link'
+
+interface User {
+  id: string
+  email: string
+  name: string
+  role: string
+  avatar?: string | null
+}
+
+type LicenseStatus = 'ACTIVE' | 'EXPIRED' | 'SUSPENDED' | 'REVOKED'
+
+interface LicenseData {
+  id: string
+  licenseKey: string
+  status: LicenseStatus
+  type: 'TRIAL' | 'PAID'
+  expiresAt: string | null
+  createdAt: string
+  downloadCount: number
+  user: {
+    id: string
+    name: string | null
+    email: string
+  }
+  product: {
+    id: string
+    name: string
+    version: string
+  }
+  sharingFlags: Array<{
+    id: string
+    reason: string
+    distinctIps: number
+    distinctUserAgents: number
+    createdAt: string
+  }>
+}
+
+interface LicensesResponse {
+  licenses: LicenseData[]
+  statusCounts: Partial<Record<LicenseStatus, number>>
+  flaggedCount: number
+  pagination: {
+    page: number
+    limit: number
+    totalCount: number
+    totalPages: number
+    hasNext: boolean
+    hasPrev: boolean
+  }
+}
+
+interface ProductOption {
+  id: string
+  name: string
+}
+
+// Actions that ask for a reason (and extension days) before running
+type LicenseAction = 'extend' | 'suspend' | 'revoke'
+
+interface PendingAction {
+  action: LicenseAction
+  licenseIds: string[]
+}
+
+interface AdminLicensesPageProps {
+  user: User
+}
+
+const actionLabels: Record<LicenseAction, { title: string, button: string }> = {
+  extend: { title: 'Extend License', button: 'Extend' },
+  suspend: { title: 'Suspend License', button: 'Suspend' },
+  revoke: { title: 'Revoke License', button: 'Revoke' },
+}
+
+const statusColors: Record<LicenseStatus, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+  SUSPENDED: 'bg-orange-100 text-orange-800',
+  REVOKED: 'bg-red-100 text-red-800',
+}
+
+export function AdminLicensesPage({ user }: AdminLicensesPageProps) {
+  const [licenses, setLicenses] = useState<LicenseData[]>([])
+  const [pagination, setPagination] = useState<LicensesResponse['pagination'] | null>(null)
+  const [statusCounts, setStatusCounts] = useState<LicensesResponse['statusCounts']>({})
+  const [flaggedCount, setFlaggedCount] = useState(0)
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [statusFilter, setStatusFilter] = useState('all')
+  const [expiryFilter, setExpiryFilter] = useState('all')
+  const [productFilter, setProductFilter] = useState('all')
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [actionReason, setActionReason] = useState('')
+  const [extensionDays, setExtensionDays] = useState(30)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const [isIssueOpen, setIsIssueOpen] = useState(false)
+  const [issueForm, setIssueForm] = useState({
+    userEmail: '',
+    productId: '',
+    expiresAt: '',
+    hardwareBinding: false
+  })
+
+  useEffect(() => {
+    fetchProducts()
+  }, [])
+
+  useEffect(() => {
+    fetchLicenses()
+  }, [currentPage, searchQuery, statusFilter, expiryFilter, productFilter, flaggedOnly])
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/admin/products?page=1&limit=100')
+
+      if (response.ok) {
+        const data = await response.json()
+        setProducts(data.products.map((product: ProductOption) => ({ id: product.id, name: product.name })))
+      }
+    } catch (error) {
+      console.error('Failed to fetch products:', error)
+    }
+  }
+
+  const fetchLicenses = async () => {
+    try {
+      setIsLoading(true)
+
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: '20'
+      })
+
+      if (searchQuery) params.append('search', searchQuery)
+      if (statusFilter !== 'all') params.append('status', statusFilter)
+      if (expiryFilter !== 'all') params.append('expiry', expiryFilter)
+      if (productFilter !== 'all') params.append('productId', productFilter)
+      if (flaggedOnly) params.append('flagged', 'true')
+
+      const response = await fetch(`/api/admin/licenses?${params}`)
+
+      if (response.ok) {
+        const data: LicensesResponse = await response.json()
+        setLicenses(data.licenses)
+        setPagination(data.pagination)
+        setStatusCounts(data.statusCounts)
+        setFlaggedCount(data.flaggedCount)
+        setSelectedIds([])
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to fetch licenses')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateLicense = async (licenseId: string, body: Record<string, unknown>) => {
+    const response = await fetch(`/api/admin/licenses/${licenseId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    })
+
+    const data = await response.json()
+    if (response.ok) {
+      toast.success(data.message)
+      return true
+    }
+
+    toast.error(data.error || 'Failed to update license')
+    return false
+  }
+
+  const handleReactivate = async (licenseId: string) => {
+    try {
+      if (await updateLicense(licenseId, { action: 'activate' })) {
+        fetchLicenses()
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    }
+  }
+
+  const handleDismissFlags = async (licenseId: string) => {
+    try {
+      if (await updateLicense(licenseId, { action: 'dismiss_flags' })) {
+        fetchLicenses()
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    }
+  }
+
+  const handleBulkReactivate = async () => {
+    await runBulkAction({ action: 'activate', licenseIds: selectedIds })
+  }
+
+  const runBulkAction = async (body: Record<string, unknown>) => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch('/api/admin/licenses/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        if (data.failed > 0) {
+          toast.warning(`${data.message}, ${data.failed} failed`)
+        } else if (data.skipped > 0) {
+          toast.warning(data.message)
+        } else {
+          toast.success(data.message)
+        }
+        fetchLicenses()
+        return true
+      }
+
+      toast.error(data.error || 'Bulk action failed')
+      return false
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const openActionDialog = (action: LicenseAction, licenseIds: string[]) => {
+    setActionReason('')
+    setExtensionDays(30)
+    setPendingAction({ action, licenseIds })
+  }
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return
+
+    const body = {
+      action: pendingAction.action,
+      reason: actionReason || undefined,
+      ...(pendingAction.action === 'extend' ? { extensionDays } : {})
+    }
+
+    let success = false
+    if (pendingAction.licenseIds.length === 1) {
+      try {
+        setIsSubmitting(true)
+        success = await updateLicense(pendingAction.licenseIds[0], body)
+        if (success) fetchLicenses()
+      } catch (error) {
+        toast.error('An unexpected error occurred')
+      } finally {
+        setIsSubmitting(false)
+      }
+    } else {
+      success = await runBulkAction({ ...body, licenseIds: pendingAction.licenseIds })
+    }
+
+    if (success) {
+      setPendingAction(null)
+    }
+  }
+
+  const handleIssueLicense = async () => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch('/api/admin/licenses', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userEmail: issueForm.userEmail,
+          productId: issueForm.productId,
+          expiresAt: issueForm.expiresAt || undefined,
+          hardwareBinding: issueForm.hardwareBinding
+        })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(`License ${data.license.licenseKey} issued`)
+        setIsIssueOpen(false)
+        setIssueForm({ userEmail: '', productId: '', expiresAt: '', hardwareBinding: false })
+        fetchLicenses()
+      } else {
+        toast.error(data.error || 'Failed to issue license')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const toggleSelected = (licenseId: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, licenseId] : ids.filter(id => id !== licenseId))
+  }
+
+  const allSelected = licenses.length > 0 && selectedIds.length === licenses.length
+
+  const stats = [
+    { label: 'Active', value: statusCounts.ACTIVE || 0, icon: CheckCircle, color: 'text-green-600' },
+    { label: 'Expired', value: statusCounts.EXPIRED || 0, icon: Clock, color: 'text-gray-600' },
+    { label: 'Suspended', value: statusCounts.SUSPENDED || 0, icon: Pause, color: 'text-orange-600' },
+    { label: 'Revoked', value: statusCounts.REVOKED || 0, icon: XCircle, color: 'text-red-600' },
+    { label: 'Flagged for Sharing', value: flaggedCount, icon: ShieldAlert, color: 'text-orange-600' },
+  ]
+
+  if (isLoading && licenses.length === 0 && !pagination) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Licenses</h1>
+            <p className="text-gray-600">Issue, extend, suspend and revoke customer licenses</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={fetchLicenses} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={() => setIsIssueOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Issue License
+            </Button>
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {stats.map(stat => (
+            <Card key={stat.label}>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-500">{stat.label}</p>
+                    <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                  </div>
+                  <stat.icon className={`h-8 w-8 ${stat.color}`} />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col lg:flex-row gap-4">
+              <div className="flex-1">
+                <div className="relative">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Search by license key, customer email or product..."
+                    value={searchQuery}
+                    onChange={(e) => {
+                      setSearchQuery(e.target.value)
+                      setCurrentPage(1)
+                    }}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1) }}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="ACTIVE">Active</SelectItem>
+                  <SelectItem value="EXPIRED">Expired</SelectItem>
+                  <SelectItem value="SUSPENDED">Suspended</SelectItem>
+                  <SelectItem value="REVOKED">Revoked</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={expiryFilter} onValueChange={(value) => { setExpiryFilter(value); setCurrentPage(1) }}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Expiry" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Expiry</SelectItem>
+                  <SelectItem value="expiring">Expiring in 30 Days</SelectItem>
+                  <SelectItem value="expired">Past Expiry</SelectItem>
+                  <SelectItem value="lifetime">Lifetime</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={productFilter} onValueChange={(value) => { setProductFilter(value); setCurrentPage(1) }}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Product" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Products</SelectItem>
+                  {products.map(product => (
+                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="flaggedOnly"
+                  checked={flaggedOnly}
+                  onCheckedChange={(checked) => { setFlaggedOnly(checked); setCurrentPage(1) }}
+                />
+                <Label htmlFor="flaggedOnly" className="whitespace-nowrap">Flagged only</Label>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Bulk actions */}
+        {selectedIds.length > 0 && (
+          <Card className="border-primary/30 bg-primary/5">
+            <CardContent className="py-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-900 mr-2">
+                  {selectedIds.length} license{selectedIds.length !== 1 ? 's' : ''} selected
+                </span>
+                <Button size="sm" variant="outline" onClick={() => openActionDialog('extend', selectedIds)}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Extend
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleBulkReactivate} disabled={isSubmitting}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reactivate
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => openActionDialog('suspend', selectedIds)}>
+                  <Pause className="h-4 w-4 mr-2" />
+                  Suspend
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => openActionDialog('revoke', selectedIds)}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  Revoke
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+                  Clear selection
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Licenses Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Licenses ({pagination?.totalCount || 0})</span>
+              {isLoading && (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {licenses.length === 0 ? (
+              <div className="text-center py-12">
+                <Key className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No licenses found</h3>
+                <p className="text-gray-500 mb-4">No licenses match your current filters.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked) => setSelectedIds(checked ? licenses.map(license => license.id) : [])}
+                          aria-label="Select all"
+                        />
+                      </TableHead>
+                      <TableHead>License</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead>Issued</TableHead>
+                      <TableHead className="w-[50px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {licenses.map((license, index) => (
+                      <motion.tr
+                        key={license.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.3, delay: index * 0.03 }}
+                        className="hover:bg-gray-50"
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(license.id)}
+                            onCheckedChange={(checked) => toggleSelected(license.id, checked === true)}
+                            aria-label={`Select ${license.licenseKey}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Link
+                            href={`/admin/licenses/${license.id}`}
+                            className="font-mono text-sm font-medium text-gray-900 hover:text-primary"
+                          >
+                            {license.licenseKey}
+                          </Link>
+                          <div className="flex items-center gap-1 mt-1">
+                            {license.type === 'TRIAL' && <Badge variant="outline">Trial</Badge>}
+                            {license.sharingFlags.length > 0 && (
+                              <Badge
+                                className="bg-orange-100 text-orange-800"
+                                title={license.sharingFlags.map(flag => flag.reason).join('\n')}
+                              >
+                                <ShieldAlert className="h-3 w-3 mr-1" />
+                                Possible sharing
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium text-gray-900">{license.user.name || '-'}</p>
+                          <p className="text-sm text-gray-500">{license.user.email}</p>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {license.product.name}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusColors[license.status]}>
+                            {license.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-500">
+                          {license.expiresAt ? formatDate(license.expiresAt) : 'Never'}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-500">
+                          {formatDistanceToNow(new Date(license.createdAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem asChild>
+                                <Link href={`/admin/licenses/${license.id}`}>
+                                  <Eye className="h-4 w-4 mr-2" />
+                                  View Details
+                                </Link>
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => openActionDialog('extend', [license.id])}>
+                                <CalendarPlus className="h-4 w-4 mr-2" />
+                                Extend
+                              </DropdownMenuItem>
+                              {license.status !== 'ACTIVE' && (
+                                <DropdownMenuItem onClick={() => handleReactivate(license.id)}>
+                                  <RotateCcw className="h-4 w-4 mr-2" />
+                                  Reactivate
+                                </DropdownMenuItem>
+                              )}
+                              {license.sharingFlags.length > 0 && (
+                                <DropdownMenuItem onClick={() => handleDismissFlags(license.id)}>
+                                  <ShieldCheck className="h-4 w-4 mr-2" />
+                                  Dismiss Sharing Flags
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              {license.status === 'ACTIVE' && (
+                                <DropdownMenuItem onClick={() => openActionDialog('suspend', [license.id])}>
+                                  <Pause className="h-4 w-4 mr-2" />
+                                  Suspend
+                                </DropdownMenuItem>
+                              )}
+                              {license.status !== 'REVOKED' && (
+                                <DropdownMenuItem
+                                  onClick={() => openActionDialog('revoke', [license.id])}
+                                  className="text-red-600"
+                                >
+                                  <Ban className="h-4 w-4 mr-2" />
+                                  Revoke
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </motion.tr>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4 border-t">
+                <div className="text-sm text-gray-500">
+                  Showing {((pagination.page - 1) * pagination.limit) + 1} to{' '}
+                  {Math.min(pagination.page * pagination.limit, pagination.totalCount)} of{' '}
+                  {pagination.totalCount} licenses
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(pagination.page - 1)}
+                    disabled={!pagination.hasPrev}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-500">
+                    Page {pagination.page} of {pagination.totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(pagination.page + 1)}
+                    disabled={!pagination.hasNext}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Extend / suspend / revoke */}
+      <Dialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction && actionLabels[pendingAction.action].title}
+              {pendingAction && pendingAction.licenseIds.length > 1 && 's'}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction?.action === 'revoke' && 'Revoked licenses stop working on every device. '}
+              {pendingAction?.action === 'suspend' && 'Suspended licenses stop working until they are reactivated. '}
+              {pendingAction?.action === 'extend' && 'Expired licenses are reactivated. '}
+              {pendingAction && pendingAction.licenseIds.length > 1 &&
+                `This applies to ${pendingAction.licenseIds.length} licenses.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {pendingAction?.action === 'extend' && (
+              <div className="space-y-2">
+                <Label htmlFor="extensionDays">Extension (days)</Label>
+                <Input
+                  id="extensionDays"
+                  type="number"
+                  min={1}
+                  value={extensionDays}
+                  onChange={(e) => setExtensionDays(Number(e.target.value))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="actionReason">Reason</Label>
+              <Textarea
+                id="actionReason"
+                value={actionReason}
+                onChange={(e) => setActionReason(e.target.value)}
+                placeholder="Recorded on the license timeline"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction?.action === 'extend' ? 'default' : 'destructive'}
+              onClick={handleConfirmAction}
+              disabled={isSubmitting || (pendingAction?.action === 'extend' && extensionDays < 1)}
+            >
+              {isSubmitting ? 'Saving...' : pendingAction && actionLabels[pendingAction.action].button}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Issue */}
+      <Dialog open={isIssueOpen} onOpenChange={setIsIssueOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Issue License</DialogTitle>
+            <DialogDescription>
+              Create a license for an existing customer account without an order.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="issueEmail">Customer Email</Label>
+              <Input
+                id="issueEmail"
+                type="email"
+                value={issueForm.userEmail}
+                onChange={(e) => setIssueForm({ ...issueForm, userEmail: e.target.value })}
+                placeholder="customer@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Product</Label>
+              <Select
+                value={issueForm.productId}
+                onValueChange={(value) => setIssueForm({ ...issueForm, productId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map(product => (
+                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issueExpiresAt">Expires</Label>
+              <Input
+                id="issueExpiresAt"
+                type="date"
+                value={issueForm.expiresAt}
+                onChange={(e) => setIssueForm({ ...issueForm, expiresAt: e.target.value })}
+              />
+              <p className="text-sm text-gray-500">Leave empty for a lifetime license</p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="issueHardwareBinding">Require Hardware Binding</Label>
+              <Switch
+                id="issueHardwareBinding"
+                checked={issueForm.hardwareBinding}
+                onCheckedChange={(checked) => setIssueForm({ ...issueForm, hardwareBinding: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsIssueOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleIssueLicense}
+              disabled={isSubmitting || !issueForm.userEmail || !issueForm.productId}
+            >
+              {isSubmitting ? 'Issuing...' : 'Issue License'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  )
+}
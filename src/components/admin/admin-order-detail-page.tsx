@@ -0,0 +1,522 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ArrowLeft, Key, RotateCcw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AdminLayout } from './admin-layout'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { ORDER_STATUS_LABELS } from '@/lib/orders/order-status'
+import type { OrderStatus } from '@prisma/client'
+import Link from 'next/link'
+
+interface User {
+  id: string
+  email: string
+  name: string
+  role: string
+  avatar?: string | null
+}
+
+interface OrderDetail {
+  id: string
+  status: OrderStatus
+  total: number
+  paymentMethod: string
+  paymentId: string | null
+  createdAt: string
+  user: {
+    id: string
+    name: string
+    email: string
+  }
+  items: Array<{
+    id: string
+    quantity: number
+    price: number
+    durationDays: number | null
+    renewalLicenseId: string | null
+    product: {
+      id: string
+      name: string
+    }
+    licenses: Array<{
+      id: string
+      licenseKey: string
+      status: string
+    }>
+    refundItem: {
+      refundId: string
+    } | null
+  }>
+  refunds: Array<{
+    id: string
+    amount: number
+    reason: string
+    method: 'PROVIDER' | 'MANUAL'
+    status: 'PENDING' | 'COMPLETED' | 'FAILED'
+    paymentFee: number
+    providerReference: string | null
+    confirmedAt: string | null
+    failureReason: string | null
+    createdAt: string
+    createdBy: {
+      name: string
+      email: string
+    }
+    items: Array<{
+      orderItemId: string
+    }>
+  }>
+  paymentEvents: Array<{
+    id: string
+    provider: string
+    reference: string
+    status: string
+    amount: number
+    note: string | null
+    processedAt: string | null
+    createdAt: string
+  }>
+}
+
+interface AdminOrderDetailPageProps {
+  user: User
+  orderId: string
+}
+
+export function AdminOrderDetailPage({ orderId }: AdminOrderDetailPageProps) {
+  const [order, setOrder] = useState<OrderDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([])
+  const [refundItemIds, setRefundItemIds] = useState<string[] | null>(null)
+  const [refundReason, setRefundReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchOrder()
+  }, [orderId])
+
+  const fetchOrder = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/admin/orders/${orderId}`)
+
+      if (response.ok) {
+        const data = await response.json()
+        setOrder(data.order)
+        setSelectedItemIds([])
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to fetch order')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openRefundDialog = (itemIds: string[]) => {
+    setRefundReason('')
+    setRefundItemIds(itemIds)
+  }
+
+  const handleRefund = async () => {
+    if (!order || !refundItemIds) return
+
+    const refundable = order.items.filter(item => !item.refundItem)
+    const isFullRefund = refundItemIds.length === refundable.length
+
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          orderItemIds: isFullRefund ? undefined : refundItemIds,
+          reason: refundReason
+        })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(data.message)
+        if (data.warning) {
+          toast.warning(data.warning)
+        }
+        setRefundItemIds(null)
+        fetchOrder()
+      } else {
+        toast.error(data.error || 'Failed to refund order')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleResumeRefund = async (refundId: string, needsReference: boolean) => {
+    let providerReference: string | undefined
+    if (needsReference) {
+      const reference = prompt('The provider never confirmed this refund. Enter its refund reference once you have checked it went through:')
+      if (!reference?.trim()) return
+      providerReference = reference.trim()
+    } else if (!confirm('Complete this refund? The money was already returned; its licenses will be revoked.')) {
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds/${refundId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ providerReference })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(data.message)
+        if (data.warning) {
+          toast.warning(data.warning)
+        }
+        fetchOrder()
+      } else {
+        toast.error(data.error || 'Failed to complete refund')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading || !order) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          ) : (
+            <p className="text-gray-500">Order not found</p>
+          )}
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  const refundableItems = order.status === 'PAID' ? order.items.filter(item => !item.refundItem) : []
+  const refundedTotal = order.refunds
+    .filter(refund => refund.status === 'COMPLETED')
+    .reduce((sum, refund) => sum + refund.amount, 0)
+  // Mirrors the refund manager: the last items take the payment fee with them
+  const itemsTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  const feeRefunded = order.refunds.some(refund => refund.status !== 'FAILED' && refund.paymentFee > 0)
+  const refundsFee = !feeRefunded && refundItemIds !== null && refundItemIds.length === refundableItems.length
+  const refundAmount = order.items
+    .filter(item => refundItemIds?.includes(item.id))
+    .reduce((sum, item) => sum + item.price * item.quantity, 0) +
+    (refundsFee ? Math.max(order.total - itemsTotal, 0) : 0)
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    setSelectedItemIds(prev => checked ? [...prev, itemId] : prev.filter(id => id !== itemId))
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-end justify-between">
+          <div>
+            <Link href="/admin/orders" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to orders
+            </Link>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-gray-900">Order #{order.id.slice(-8)}</h1>
+              <Badge variant={order.status === 'PAID' ? 'default' : 'secondary'}>
+                {ORDER_STATUS_LABELS[order.status]}
+              </Badge>
+            </div>
+            <p className="text-gray-600">
+              {order.user.name} ({order.user.email}) · {formatDate(order.createdAt)}
+            </p>
+          </div>
+          {refundableItems.length > 0 && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={selectedItemIds.length === 0}
+                onClick={() => openRefundDialog(selectedItemIds)}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Refund Selected
+              </Button>
+              <Button variant="destructive" onClick={() => openRefundDialog(refundableItems.map(item => item.id))}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Refund Order
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Total</p>
+              <p className="text-lg font-semibold">{formatCurrency(order.total)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Refunded</p>
+              <p className="text-lg font-semibold">{formatCurrency(refundedTotal)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500">Payment</p>
+              <p className="text-lg font-semibold">{order.paymentMethod.replace('DUITKU_', '').replace('_', ' ')}</p>
+              {order.paymentId && <p className="text-xs text-gray-500 font-mono">{order.paymentId}</p>}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {refundableItems.length > 0 && <TableHead className="w-10"></TableHead>}
+                  <TableHead>Product</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Licenses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.items.map(item => (
+                  <TableRow key={item.id}>
+                    {refundableItems.length > 0 && (
+                      <TableCell>
+                        {!item.refundItem && (
+                          <Checkbox
+                            checked={selectedItemIds.includes(item.id)}
+                            onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <p className="font-medium text-gray-900">{item.product.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.durationDays ? `${item.durationDays} days` : 'Lifetime'}
+                        {item.renewalLicenseId && ' · Renewal'}
+                      </p>
+                      {item.refundItem && <Badge variant="outline" className="mt-1">Refunded</Badge>}
+                    </TableCell>
+                    <TableCell>{item.quantity}</TableCell>
+                    <TableCell>{formatCurrency(item.price * item.quantity)}</TableCell>
+                    <TableCell>
+                      {item.licenses.length === 0 ? (
+                        <span className="text-sm text-gray-500">
+                          {item.renewalLicenseId ? 'Extends an existing license' : 'None issued'}
+                        </span>
+                      ) : (
+                        <div className="space-y-1">
+                          {item.licenses.map(license => (
+                            <Link
+                              key={license.id}
+                              href={`/admin/licenses/${license.id}`}
+                              className="flex items-center text-sm font-mono text-gray-700 hover:text-gray-900"
+                            >
+                              <Key className="h-3 w-3 mr-1" />
+                              {license.licenseKey}
+                              <Badge variant={license.status === 'ACTIVE' ? 'default' : 'secondary'} className="ml-2">
+                                {license.status}
+                              </Badge>
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Refunds */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Refunds</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {order.refunds.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No refunds issued</p>
+              ) : (
+                <div className="space-y-4">
+                  {order.refunds.map(refund => (
+                    <div key={refund.id} className="border-b pb-3 last:border-0">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-gray-900">
+                          {formatCurrency(refund.amount)}
+                          {/* Failed refunds release their items */}
+                          {refund.items.length > 0 && (
+                            <span className="text-sm font-normal text-gray-500">
+                              {' '}· {refund.items.length} item{refund.items.length !== 1 ? 's' : ''}
+                            </span>
+                          )}
+                        </p>
+                        <Badge variant={refund.status === 'FAILED' ? 'destructive' : 'outline'}>
+                          {refund.status === 'FAILED'
+                            ? 'Failed'
+                            : refund.status === 'PENDING'
+                              ? 'Processing'
+                              : refund.method === 'PROVIDER' ? 'Via provider' : 'Manual payout'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">{refund.reason}</p>
+                      {refund.paymentFee > 0 && (
+                        <p className="text-sm text-gray-500">Includes the {formatCurrency(refund.paymentFee)} payment fee</p>
+                      )}
+                      {refund.failureReason && (
+                        <p className="text-sm text-red-600">{refund.failureReason}</p>
+                      )}
+                      <p className="text-xs text-gray-400">
+                        {refund.createdBy.email} · {formatDistanceToNow(new Date(refund.createdAt), { addSuffix: true })}
+                        {refund.providerReference && ` · ${refund.providerReference}`}
+                      </p>
+                      {/* Left processing when completing it failed */}
+                      {refund.status === 'PENDING' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mt-2"
+                          disabled={isSubmitting}
+                          onClick={() => handleResumeRefund(refund.id, refund.method === 'PROVIDER' && !refund.confirmedAt)}
+                        >
+                          Complete refund
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Payment callbacks */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment Callbacks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {order.paymentEvents.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No callbacks received</p>
+              ) : (
+                <div className="space-y-4">
+                  {order.paymentEvents.map(event => (
+                    <div key={event.id} className="border-b pb-3 last:border-0">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-gray-900">
+                          {event.status} · {formatCurrency(event.amount)}
+                        </p>
+                        <span className="text-xs text-gray-500">
+                          {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      {event.note && <p className="text-sm text-gray-600">{event.note}</p>}
+                      <p className="text-xs text-gray-400 font-mono">
+                        {event.provider} · {event.reference}
+                        {!event.processedAt && ' · not processed'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Refund */}
+      <Dialog
+        open={refundItemIds !== null}
+        onOpenChange={(open) => !open && setRefundItemIds(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund {formatCurrency(refundAmount)}</DialogTitle>
+            <DialogDescription>
+              Licenses issued for the refunded items are revoked, renewals lose the time they added, and the customer is notified.
+              {refundItemIds && refundItemIds.length === refundableItems.length && ' The order will be marked as refunded.'}
+              {refundsFee && ' The payment fee is refunded too.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundReason">Reason</Label>
+            <Textarea
+              id="refundReason"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              placeholder="Shown to the customer and kept with the refund"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundItemIds(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRefund}
+              disabled={isSubmitting || refundReason.trim().length < 3}
+            >
+              {isSubmitting ? 'Refunding...' : 'Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  )
+}
@@ -50,6 +50,13 @@ import { AdminLayout } from './admin-layout'
 import { toast } from 'sonner'
 import { formatDistanceToNow } from 'date-fns'
 import Link from 'next/link'
+import type { OrderStatus } from '@prisma/client'
+import {
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+} from '@/lib/orders/order-status'
 
 interface User {
   id: string
@@ -61,7 +68,7 @@ interface User {
 
 interface OrderData {
   id: string
-  status: string
+  status: OrderStatus
   total: number
   subtotal: number
   tax: number
@@ -104,6 +111,15 @@ interface OrdersResponse {
   }
 }
 
+const statusActions: Record<OrderStatus, { label: string, icon: typeof Clock, confirm?: string }> = {
+  PENDING: { label: 'Mark Pending', icon: Clock },
+  PAID: { label: 'Mark Paid', icon: CheckCircle, confirm: 'Mark this order as paid? Licenses will be issued to the customer.' },
+  FAILED: { label: 'Mark Failed', icon: XCircle },
+  CANCELLED: { label: 'Cancel Order', icon: X },
+  REFUNDED: { label: 'Refund', icon: RefreshCw }, // Issued from the order page
+  NEEDS_REVIEW: { label: 'Hold for Review', icon: AlertCircle },
+}
+
 interface AdminOrdersPageProps {
   user: User
 }
@@ -149,7 +165,11 @@ export function AdminOrdersPage({ user }: AdminOrdersPageProps) {
     }
   }
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: string) => {
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
+    if (statusActions[newStatus].confirm && !confirm(statusActions[newStatus].confirm)) {
+      return
+    }
+
     try {
       const response = await fetch(`/api/admin/orders/${orderId}`, {
         method: 'PUT',
@@ -202,16 +222,17 @@ export function AdminOrdersPage({ user }: AdminOrdersPageProps) {
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'completed':
+      case 'paid':
         return 'bg-green-100 text-green-800'
-      case 'processing':
-        return 'bg-blue-100 text-blue-800'
       case 'pending':
         return 'bg-yellow-100 text-yellow-800'
+      case 'failed':
       case 'cancelled':
         return 'bg-red-100 text-red-800'
       case 'refunded':
         return 'bg-purple-100 text-purple-800'
+      case 'needs_review':
+        return 'bg-orange-100 text-orange-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -219,15 +240,15 @@ export function AdminOrdersPage({ user }: AdminOrdersPageProps) {
 
   const getStatusIcon = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'completed':
+      case 'paid':
         return CheckCircle
-      case 'processing':
-        return RefreshCw
       case 'pending':
         return Clock
+      case 'failed':
       case 'cancelled':
         return XCircle
       case 'refunded':
+      case 'needs_review':
         return AlertCircle
       default:
         return Clock
@@ -280,11 +301,9 @@ export function AdminOrdersPage({ user }: AdminOrdersPageProps) {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="PENDING">Pending</SelectItem>
-                  <SelectItem value="PROCESSING">Processing</SelectItem>
-                  <SelectItem value="COMPLETED">Completed</SelectItem>
-                  <SelectItem value="CANCELLED">Cancelled</SelectItem>
-                  <SelectItem value="REFUNDED">Refunded</SelectItem>
+                  {ORDER_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -359,7 +378,7 @@ export function AdminOrdersPage({ user }: AdminOrdersPageProps) {
                           <TableCell>
                             <Badge className={getStatusColor(order.status)}>
                               <StatusIcon className="h-3 w-3 mr-1" />
-                              {order.status}
+                              {ORDER_STATUS_LABELS[order.status]}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -388,23 +407,23 @@ export function AdminOrdersPage({ user }: AdminOrdersPageProps) {
                                     View Details
                                   </Link>
                                 </DropdownMenuItem>
-                                {order.status === 'PENDING' && (
-                                  <DropdownMenuItem
-                                    onClick={() => handleUpdateOrderStatus(order.id, 'PROCESSING')}
-                                  >
-                                    <RefreshCw className="h-4 w-4 mr-2" />
-                                    Mark Processing
-                                  </DropdownMenuItem>
-                                )}
-                                {order.status === 'PROCESSING' && (
-                                  <DropdownMenuItem
-                                    onClick={() => handleUpdateOrderStatus(order.id, 'COMPLETED')}
-                                  >
-                                    <CheckCircle className="h-4 w-4 mr-2" />
-                                    Mark Completed
-                                  </DropdownMenuItem>
-                                )}
-                                {order.status !== 'COMPLETED' && order.status !== 'CANCELLED' && (
+                                {getAllowedOrderTransitions(order.status)
+                                  .filter(status => status !== 'CANCELLED' && status !== 'REFUNDED')
+                                  .map(status => {
+                                    const action = statusActions[status]
+                                    const ActionIcon = action.icon
+
+                                    return (
+                                      <DropdownMenuItem
+                                        key={status}
+                                        onClick={() => handleUpdateOrderStatus(order.id, status)}
+                                      >
+                                        <ActionIcon className="h-4 w-4 mr-2" />
+                                        {action.label}
+                                      </DropdownMenuItem>
+                                    )
+                                  })}
+                                {canTransitionOrder(order.status, 'CANCELLED') && (
                                   <DropdownMenuItem
                                     onClick={() => handleCancelOrder(order.id)}
                                     className="text-red-600"
@@ -0,0 +1,341 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, Download, Package, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AdminLayout } from './admin-layout'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import Link from 'next/link'
+
+interface User {
+  id: string
+  email: string
+  name: string
+  role: string
+  avatar?: string | null
+}
+
+interface Release {
+  id: string
+  version: string
+  channel: 'STABLE' | 'BETA'
+  changelog: string
+  filePath: string
+  fileSize: number | null
+  sha256: string
+  releasedAt: string
+  _count: {
+    downloads: number
+  }
+}
+
+interface ReleasesResponse {
+  product: {
+    id: string
+    name: string
+    version: string
+  }
+  releases: Release[]
+}
+
+interface AdminProductReleasesPageProps {
+  user: User
+  productId: string
+}
+
+const emptyForm = {
+  version: '',
+  channel: 'STABLE' as 'STABLE' | 'BETA',
+  changelog: '',
+  filePath: '',
+  fileSize: '',
+  sha256: '',
+  releasedAt: ''
+}
+
+export function AdminProductReleasesPage({ productId }: AdminProductReleasesPageProps) {
+  const [product, setProduct] = useState<ReleasesResponse['product'] | null>(null)
+  const [releases, setReleases] = useState<Release[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+
+  useEffect(() => {
+    fetchReleases()
+  }, [productId])
+
+  const fetchReleases = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/admin/products/${productId}/releases`)
+
+      if (response.ok) {
+        const data: ReleasesResponse = await response.json()
+        setProduct(data.product)
+        setReleases(data.releases)
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to fetch releases')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateForm = (field: keyof typeof emptyForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsPublishing(true)
+
+      const response = await fetch(`/api/admin/products/${productId}/releases`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          version: form.version,
+          channel: form.channel,
+          changelog: form.changelog,
+          filePath: form.filePath,
+          fileSize: form.fileSize ? parseInt(form.fileSize) : undefined,
+          sha256: form.sha256,
+          releasedAt: form.releasedAt || undefined
+        })
+      })
+
+      if (response.ok) {
+        toast.success(`Version ${form.version} published`)
+        setForm(emptyForm)
+        fetchReleases()
+      } else {
+        const error = await response.json()
+        toast.error(error.details?.[0]?.message || error.error || 'Failed to publish release')
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  if (isLoading && !product) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <Link href="/admin/products" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to products
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">{product?.name} Releases</h1>
+            <p className="text-gray-600">
+              Current version {product?.version}. Publish builds and changelogs for customers.
+            </p>
+          </div>
+        </div>
+
+        {/* Publish Form */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Upload className="h-5 w-5 mr-2" />
+              Publish Release
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handlePublish} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="version">Version</Label>
+                  <Input
+                    id="version"
+                    value={form.version}
+                    onChange={(e) => updateForm('version', e.target.value)}
+                    placeholder="2.4.0"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="channel">Channel</Label>
+                  <Select value={form.channel} onValueChange={(value) => updateForm('channel', value)}>
+                    <SelectTrigger id="channel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="STABLE">Stable</SelectItem>
+                      <SelectItem value="BETA">Beta</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="releasedAt">Release Date</Label>
+                  <Input
+                    id="releasedAt"
+                    type="datetime-local"
+                    value={form.releasedAt}
+                    onChange={(e) => updateForm('releasedAt', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="filePath">File</Label>
+                  <Input
+                    id="filePath"
+                    value={form.filePath}
+                    onChange={(e) => updateForm('filePath', e.target.value)}
+                    placeholder="product-slug/2.4.0/setup.zip"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fileSize">File Size (bytes)</Label>
+                  <Input
+                    id="fileSize"
+                    type="number"
+                    min="1"
+                    value={form.fileSize}
+                    onChange={(e) => updateForm('fileSize', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sha256">SHA-256</Label>
+                <Input
+                  id="sha256"
+                  value={form.sha256}
+                  onChange={(e) => updateForm('sha256', e.target.value)}
+                  placeholder="64 character hex digest of the file"
+                  className="font-mono"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="changelog">Changelog (Markdown)</Label>
+                <Textarea
+                  id="changelog"
+                  value={form.changelog}
+                  onChange={(e) => updateForm('changelog', e.target.value)}
+                  placeholder={'## Fixes\n- Fixed crash on startup'}
+                  rows={6}
+                  required
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isPublishing}>
+                  {isPublishing ? 'Publishing...' : 'Publish Release'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Release History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Release History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {releases.length === 0 ? (
+              <div className="text-center py-12">
+                <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No releases yet</h3>
+                <p className="text-gray-500">Publish the first build of this product above</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead>Downloads</TableHead>
+                      <TableHead>Released</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {releases.map((release, index) => (
+                      <motion.tr
+                        key={release.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.3, delay: index * 0.05 }}
+                        className="hover:bg-gray-50"
+                      >
+                        <TableCell className="font-medium">{release.version}</TableCell>
+                        <TableCell>
+                          <Badge variant={release.channel === 'STABLE' ? 'secondary' : 'outline'}>
+                            {release.channel === 'STABLE' ? 'Stable' : 'Beta'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-gray-900">{release.filePath}</p>
+                          <p className="text-xs text-gray-500 font-mono truncate max-w-[240px]">
+                            {release.sha256}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center text-sm text-gray-600">
+                            <Download className="h-4 w-4 mr-1" />
+                            {release._count.downloads}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-500">
+                          {formatDistanceToNow(new Date(release.releasedAt), { addSuffix: true })}
+                        </TableCell>
+                      </motion.tr>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  )
+}
@@ -13,7 +13,8 @@ import {
   Package,
   DollarSign,
   Star,
-  ShoppingCart
+  ShoppingCart,
+  History
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -65,11 +66,20 @@ interface Product {
   downloadUrl?: string
   isActive: boolean
   stock?: number
+  licenseKeySource: 'GENERATED' | 'POOL'
+  lowStockThreshold: number
+  plans: Array<{
+    id: string
+    name: string
+    durationDays: number | null
+    price: number
+  }>
   createdAt: string
   updatedAt: string
   _count: {
     orderItems: number
     reviews: number
+    pooledKeys: number
   }
 }
 
@@ -306,12 +316,28 @@ export function AdminProductsPage({ user }: AdminProductsPageProps) {
                           <Badge variant="secondary">{product.category}</Badge>
                         </TableCell>
                         <TableCell className="font-medium">
-                          {formatCurrency(product.price)}
+                          {product.plans.length > 0 ? (
+                            <div>
+                              <p>from {formatCurrency(Math.min(...product.plans.map(plan => plan.price)))}</p>
+                              <p className="text-xs font-normal text-gray-500">
+                                {product.plans.map(plan => plan.name).join(' · ')}
+                              </p>
+                            </div>
+                          ) : (
+                            formatCurrency(product.price)
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge className={getStatusColor(product.isActive)}>
                             {getStatusText(product.isActive)}
                           </Badge>
+                          {product.licenseKeySource === 'POOL' && (
+                            <p className={`text-xs mt-1 ${
+                              product._count.pooledKeys <= product.lowStockThreshold ? 'text-red-600' : 'text-gray-500'
+                            }`}>
+                              {product._count.pooledKeys} keys left
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center text-sm text-gray-600">
@@ -348,6 +374,12 @@ export function AdminProductsPage({ user }: AdminProductsPageProps) {
                                   Edit
                                 </Link>
                               </DropdownMenuItem>
+                              <DropdownMenuItem asChild>
+                                <Link href={`/admin/products/${product.id}/releases`}>
+                                  <History className="h-4 w-4 mr-2" />
+                                  Releases
+                                </Link>
+                              </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={() => handleDeleteProduct(product.id, product.name)}
                                 className="text-red-600"
@@ -89,6 +89,47 @@ interface Settings {
       }
     }
   }
+  renewalSettings: {
+    renewalSettings: {
+      value: {
+        pricePercent?: number
+        stackEarlyRenewals?: boolean
+        earlyRenewalWindowDays?: number
+      }
+    }
+  }
+  downloadSettings: {
+    downloadSettings: {
+      value: {
+        downloadsPerDay?: number
+        distinctIpsPerWeek?: number
+        sharingWindowHours?: number
+        sharingIpThreshold?: number
+        sharingUserAgentThreshold?: number
+      }
+    }
+  }
+  hardwareResetSettings: {
+    hardwareResetSettings: {
+      value: {
+        cooldownDays?: number
+        monthlyLimit?: number
+        requireReauthentication?: boolean
+      }
+    }
+  }
+  clientApiSettings: {
+    clientApiSettings: {
+      value: {
+        requireSignedRequests?: boolean
+        allowGetValidation?: boolean
+        timestampToleranceSeconds?: number
+        validationsPerKeyPerMinute?: number
+        requestsPerKeyPerMinute?: number
+        requireDeviceActivation?: boolean
+      }
+    }
+  }
   security: {
     securitySettings: {
       value: {
@@ -170,6 +211,26 @@ export function AdminSettingsPage({ user }: AdminSettingsPageProps) {
         settingsData.paymentSettings = settings.payment.paymentSettings.value
       }
 
+      // License renewal settings
+      if (settings.renewalSettings?.renewalSettings) {
+        settingsData.renewalSettings = settings.renewalSettings.renewalSettings.value
+      }
+
+      // Download limit settings
+      if (settings.downloadSettings?.downloadSettings) {
+        settingsData.downloadSettings = settings.downloadSettings.downloadSettings.value
+      }
+
+      // Hardware reset settings
+      if (settings.hardwareResetSettings?.hardwareResetSettings) {
+        settingsData.hardwareResetSettings = settings.hardwareResetSettings.hardwareResetSettings.value
+      }
+
+      // Client API settings
+      if (settings.clientApiSettings?.clientApiSettings) {
+        settingsData.clientApiSettings = settings.clientApiSettings.clientApiSettings.value
+      }
+
       // Security settings
       if (settings.security?.securitySettings) {
         settingsData.securitySettings = settings.security.securitySettings.value
@@ -439,6 +500,246 @@ export function AdminSettingsPage({ user }: AdminSettingsPageProps) {
             </Card>
           </TabsContent>
 
+          <TabsContent value="payment" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>License Renewals</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="renewalPricePercent">Renewal Price (% of plan price)</Label>
+                    <Input
+                      id="renewalPricePercent"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={settings?.renewalSettings?.renewalSettings?.value?.pricePercent ?? 100}
+                      onChange={(e) => updateNestedSetting('renewalSettings', 'renewalSettings', 'pricePercent', Number(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="earlyRenewalWindowDays">Renewal Opens (days before expiry)</Label>
+                    <Input
+                      id="earlyRenewalWindowDays"
+                      type="number"
+                      min={0}
+                      value={settings?.renewalSettings?.renewalSettings?.value?.earlyRenewalWindowDays ?? 30}
+                      onChange={(e) => updateNestedSetting('renewalSettings', 'renewalSettings', 'earlyRenewalWindowDays', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500">Use 0 to allow renewal at any time</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Stack Early Renewals</Label>
+                    <p className="text-sm text-gray-500">Add renewed time on top of the time a license has left</p>
+                  </div>
+                  <Switch
+                    checked={settings?.renewalSettings?.renewalSettings?.value?.stackEarlyRenewals ?? true}
+                    onCheckedChange={(checked) => updateNestedSetting('renewalSettings', 'renewalSettings', 'stackEarlyRenewals', checked)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="security" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Download Limits</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="downloadsPerDay">Downloads per License per Day</Label>
+                    <Input
+                      id="downloadsPerDay"
+                      type="number"
+                      min={0}
+                      value={settings?.downloadSettings?.downloadSettings?.value?.downloadsPerDay ?? 10}
+                      onChange={(e) => updateNestedSetting('downloadSettings', 'downloadSettings', 'downloadsPerDay', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500">Use 0 for no limit</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="distinctIpsPerWeek">Download Locations per License per Week</Label>
+                    <Input
+                      id="distinctIpsPerWeek"
+                      type="number"
+                      min={0}
+                      value={settings?.downloadSettings?.downloadSettings?.value?.distinctIpsPerWeek ?? 5}
+                      onChange={(e) => updateNestedSetting('downloadSettings', 'downloadSettings', 'distinctIpsPerWeek', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500">Distinct IP addresses, use 0 for no limit</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>License Sharing Detection</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  Licenses used from more IP addresses or devices than these thresholds within the window are flagged for review
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sharingWindowHours">Window (hours)</Label>
+                    <Input
+                      id="sharingWindowHours"
+                      type="number"
+                      min={1}
+                      value={settings?.downloadSettings?.downloadSettings?.value?.sharingWindowHours ?? 24}
+                      onChange={(e) => updateNestedSetting('downloadSettings', 'downloadSettings', 'sharingWindowHours', Number(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sharingIpThreshold">IP Address Threshold</Label>
+                    <Input
+                      id="sharingIpThreshold"
+                      type="number"
+                      min={2}
+                      value={settings?.downloadSettings?.downloadSettings?.value?.sharingIpThreshold ?? 4}
+                      onChange={(e) => updateNestedSetting('downloadSettings', 'downloadSettings', 'sharingIpThreshold', Number(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sharingUserAgentThreshold">Device Threshold</Label>
+                    <Input
+                      id="sharingUserAgentThreshold"
+                      type="number"
+                      min={2}
+                      value={settings?.downloadSettings?.downloadSettings?.value?.sharingUserAgentThreshold ?? 4}
+                      onChange={(e) => updateNestedSetting('downloadSettings', 'downloadSettings', 'sharingUserAgentThreshold', Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Self-Service Hardware Resets</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="hardwareResetCooldownDays">Cooldown (days)</Label>
+                    <Input
+                      id="hardwareResetCooldownDays"
+                      type="number"
+                      min={0}
+                      value={settings?.hardwareResetSettings?.hardwareResetSettings?.value?.cooldownDays ?? 7}
+                      onChange={(e) => updateNestedSetting('hardwareResetSettings', 'hardwareResetSettings', 'cooldownDays', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500">Minimum time between two resets of a license</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hardwareResetMonthlyLimit">Resets per 30 Days</Label>
+                    <Input
+                      id="hardwareResetMonthlyLimit"
+                      type="number"
+                      min={0}
+                      value={settings?.hardwareResetSettings?.hardwareResetSettings?.value?.monthlyLimit ?? 2}
+                      onChange={(e) => updateNestedSetting('hardwareResetSettings', 'hardwareResetSettings', 'monthlyLimit', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500">Use 0 for no limit</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Require Re-authentication</Label>
+                    <p className="text-sm text-gray-500">Ask for the account password, or a 2FA code when enabled</p>
+                  </div>
+                  <Switch
+                    checked={settings?.hardwareResetSettings?.hardwareResetSettings?.value?.requireReauthentication ?? true}
+                    onCheckedChange={(checked) => updateNestedSetting('hardwareResetSettings', 'hardwareResetSettings', 'requireReauthentication', checked)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Client License API</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Require Signed Requests</Label>
+                    <p className="text-sm text-gray-500">Only accept license API requests signed with a product client credential. Unsigned requests are answered with a deprecation notice until this is on.</p>
+                  </div>
+                  <Switch
+                    checked={settings?.clientApiSettings?.clientApiSettings?.value?.requireSignedRequests ?? false}
+                    onCheckedChange={(checked) => updateNestedSetting('clientApiSettings', 'clientApiSettings', 'requireSignedRequests', checked)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Require Device Activation</Label>
+                    <p className="text-sm text-gray-500">Only validate and lease licenses on devices that activated them. Licenses issued before activations were tracked must be activated again.</p>
+                  </div>
+                  <Switch
+                    checked={settings?.clientApiSettings?.clientApiSettings?.value?.requireDeviceActivation ?? false}
+                    onCheckedChange={(checked) => updateNestedSetting('clientApiSettings', 'clientApiSettings', 'requireDeviceActivation', checked)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Allow Legacy GET Validation</Label>
+                    <p className="text-sm text-gray-500">Deprecated unsigned lookups by key in the query string</p>
+                  </div>
+                  <Switch
+                    checked={settings?.clientApiSettings?.clientApiSettings?.value?.allowGetValidation ?? true}
+                    onCheckedChange={(checked) => updateNestedSetting('clientApiSettings', 'clientApiSettings', 'allowGetValidation', checked)}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="timestampToleranceSeconds">Timestamp Tolerance (seconds)</Label>
+                    <Input
+                      id="timestampToleranceSeconds"
+                      type="number"
+                      min={30}
+                      max={3600}
+                      value={settings?.clientApiSettings?.clientApiSettings?.value?.timestampToleranceSeconds ?? 300}
+                      onChange={(e) => updateNestedSetting('clientApiSettings', 'clientApiSettings', 'timestampToleranceSeconds', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500">Allowed clock difference between client and server</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="validationsPerKeyPerMinute">Validations per Key per Minute</Label>
+                    <Input
+                      id="validationsPerKeyPerMinute"
+                      type="number"
+                      min={1}
+                      value={settings?.clientApiSettings?.clientApiSettings?.value?.validationsPerKeyPerMinute ?? 10}
+                      onChange={(e) => updateNestedSetting('clientApiSettings', 'clientApiSettings', 'validationsPerKeyPerMinute', Number(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="requestsPerKeyPerMinute">Activation &amp; Lease Requests per Key per Minute</Label>
+                    <Input
+                      id="requestsPerKeyPerMinute"
+                      type="number"
+                      min={1}
+                      value={settings?.clientApiSettings?.clientApiSettings?.value?.requestsPerKeyPerMinute ?? 20}
+                      onChange={(e) => updateNestedSetting('clientApiSettings', 'clientApiSettings', 'requestsPerKeyPerMinute', Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Other tabs would continue here... */}
         </Tabs>
       </div>
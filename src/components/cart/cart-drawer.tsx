@@ -5,7 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { X, ShoppingBag, Minus, Plus, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { useCart } from '@/hooks/use-cart'
+import { useCart, getCartItemPrice } from '@/hooks/use-cart'
 import { formatCurrency } from '@/lib/utils'
 import Link from 'next/link'
 import Image from 'next/image'
@@ -81,7 +81,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                 <div className="p-6 space-y-4">
                   {cartItems.map((item) => (
                     <motion.div
-                      key={item.productId}
+                      key={`${item.productId}-${item.planId ?? 'default'}`}
                       layout
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -105,12 +105,13 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                         </h4>
                         <p className="text-xs text-gray-600 mb-2">
                           {item.product.category}
+                          {item.plan && ` · ${item.plan.name}`}
                         </p>
                         <div className="flex items-center space-x-2">
                           <span className="font-semibold text-primary">
-                            {formatCurrency(item.product.salePrice || item.product.price)}
+                            {formatCurrency(getCartItemPrice(item))}
                           </span>
-                          {item.product.salePrice && (
+                          {!item.plan && item.product.salePrice && (
                             <span className="text-xs text-gray-500 line-through">
                               {formatCurrency(item.product.price)}
                             </span>
@@ -125,7 +126,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                             variant="outline"
                             size="sm"
                             className="h-8 w-8 p-0"
-                            onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                            onClick={() => updateQuantity(item.productId, item.quantity - 1, item.planId)}
                             disabled={isLoading}
                           >
                             <Minus className="h-3 w-3" />
@@ -137,7 +138,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                             variant="outline"
                             size="sm"
                             className="h-8 w-8 p-0"
-                            onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                            onClick={() => updateQuantity(item.productId, item.quantity + 1, item.planId)}
                             disabled={isLoading}
                           >
                             <Plus className="h-3 w-3" />
@@ -147,7 +148,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                           variant="ghost"
                           size="sm"
                           className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
-                          onClick={() => removeFromCart(item.productId)}
+                          onClick={() => removeFromCart(item.productId, item.planId)}
                           disabled={isLoading}
                         >
                           <Trash2 className="h-3 w-3" />
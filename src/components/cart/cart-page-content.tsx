@@ -5,7 +5,7 @@ import { ShoppingBag, Minus, Plus, Trash2, ArrowLeft, Tag } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { useCart } from '@/hooks/use-cart'
+import { useCart, getCartItemPrice } from '@/hooks/use-cart'
 import { formatCurrency } from '@/lib/utils'
 import { MainLayout } from '@/components/layout/main-layout'
 import Link from 'next/link'
@@ -93,7 +93,7 @@ export function CartPageContent() {
 
                 {cartItems.map((item) => (
                   <motion.div
-                    key={item.productId}
+                    key={`${item.productId}-${item.planId ?? 'default'}`}
                     layout
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -119,12 +119,13 @@ export function CartPageContent() {
                             </h3>
                             <p className="text-gray-600 text-sm mb-2">
                               {item.product.category}
+                              {item.plan && ` · ${item.plan.name}`}
                             </p>
                             <div className="flex items-center space-x-2">
                               <span className="font-semibold text-primary text-lg">
-                                {formatCurrency(item.product.salePrice || item.product.price)}
+                                {formatCurrency(getCartItemPrice(item))}
                               </span>
-                              {item.product.salePrice && (
+                              {!item.plan && item.product.salePrice && (
                                 <span className="text-sm text-gray-500 line-through">
                                   {formatCurrency(item.product.price)}
                                 </span>
@@ -139,7 +140,7 @@ export function CartPageContent() {
                                 variant="outline"
                                 size="sm"
                                 className="h-8 w-8 p-0"
-                                onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                                onClick={() => updateQuantity(item.productId, item.quantity - 1, item.planId)}
                                 disabled={isLoading}
                               >
                                 <Minus className="h-4 w-4" />
@@ -151,7 +152,7 @@ export function CartPageContent() {
                                 variant="outline"
                                 size="sm"
                                 className="h-8 w-8 p-0"
-                                onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                                onClick={() => updateQuantity(item.productId, item.quantity + 1, item.planId)}
                                 disabled={isLoading}
                               >
                                 <Plus className="h-4 w-4" />
@@ -161,7 +162,7 @@ export function CartPageContent() {
                               variant="ghost"
                               size="sm"
                               className="text-red-500 hover:text-red-700"
-                              onClick={() => removeFromCart(item.productId)}
+                              onClick={() => removeFromCart(item.productId, item.planId)}
                               disabled={isLoading}
                             >
                               <Trash2 className="h-4 w-4" />
@@ -171,7 +172,7 @@ export function CartPageContent() {
                           {/* Item Total */}
                           <div className="text-right">
                             <p className="font-semibold text-lg">
-                              {formatCurrency((item.product.salePrice || item.product.price) * item.quantity)}
+                              {formatCurrency(getCartItemPrice(item) * item.quantity)}
                             </p>
                           </div>
                         </div>
@@ -6,7 +6,7 @@ import { ArrowLeft, CreditCard, User, MapPin, Shield } from 'lucide-react'
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { useCart } from '@/hooks/use-cart'
+import { useCart, getCartItemPrice } from '@/hooks/use-cart'
 import { formatCurrency } from '@/lib/utils'
 import { MainLayout } from '@/components/layout/main-layout'
 import Link from 'next/link'
@@ -37,8 +37,16 @@ export interface CheckoutData {
   }
 }
 
+// Payment method options offered by the form, as the gateway method they are paid with
+const CHECKOUT_PAYMENT_METHODS: Record<string, 'DUITKU_VA' | 'DUITKU_EWALLET' | 'DUITKU_QRIS'> = {
+  bank_transfer: 'DUITKU_VA',
+  virtual_account: 'DUITKU_VA',
+  e_wallet: 'DUITKU_EWALLET',
+  qris: 'DUITKU_QRIS'
+}
+
 export function CheckoutPageContent({ user }: CheckoutPageContentProps) {
-  const { cartItems, cartSummary, isEmpty, discountCode, discountAmount, clearCart } = useCart()
+  const { cartItems, cartSummary, isEmpty, clearCart } = useCart()
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('customer-info')
   const [isProcessing, setIsProcessing] = useState(false)
   const [checkoutData, setCheckoutData] = useState<CheckoutData>({
@@ -107,18 +115,29 @@ export function CheckoutPageContent({ user }: CheckoutPageContentProps) {
     setIsProcessing(true)
 
     try {
-      const response = await fetch('/api/payment/create', {
+      const paymentMethod = CHECKOUT_PAYMENT_METHODS[checkoutData.paymentMethod.method]
+      if (!paymentMethod) {
+        throw new Error('Please choose a payment method')
+      }
+
+      const response = await fetch('/api/checkout', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          cartItems,
-          customerInfo: checkoutData.customerInfo,
-          paymentMethod: checkoutData.paymentMethod,
-          total: cartSummary.total,
-          discountCode,
-          discountAmount
+          items: cartItems.map(item => ({
+            productId: item.productId,
+            planId: item.planId,
+            quantity: item.quantity,
+            price: getCartItemPrice(item)
+          })),
+          paymentMethod,
+          customerInfo: {
+            name: checkoutData.customerInfo.name,
+            email: checkoutData.customerInfo.email,
+            phone: checkoutData.customerInfo.phone
+          }
         })
       })
 
@@ -131,11 +150,13 @@ export function CheckoutPageContent({ user }: CheckoutPageContentProps) {
       // Clear cart after successful order creation
       clearCart()
 
-      // Redirect to payment page or show payment instructions
-      if (result.paymentUrl) {
+      // VA numbers and QR codes are shown on our instructions page, other
+      // methods continue on the gateway's payment page
+      if (result.instructionsUrl) {
+        window.location.href = result.instructionsUrl
+      } else if (result.paymentUrl) {
         window.location.href = result.paymentUrl
       } else {
-        // For VA or QRIS, redirect to payment instructions page
         window.location.href = `/payment/instructions/${result.orderId}`
       }
 
@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { useCart } from '@/hooks/use-cart'
+import { useCart, getCartItemPrice } from '@/hooks/use-cart'
 import { formatCurrency } from '@/lib/utils'
 import { ShoppingBag, Tag } from 'lucide-react'
 import Image from 'next/image'
@@ -22,7 +22,7 @@ export function OrderSummary() {
         </CardHeader>
         <CardContent className="space-y-4">
           {cartItems.map((item) => (
-            <div key={item.productId} className="flex items-center space-x-3">
+            <div key={`${item.productId}-${item.planId ?? 'default'}`} className="flex items-center space-x-3">
               <div className="relative w-12 h-12 rounded-lg overflow-hidden bg-gray-200 flex-shrink-0">
                 <Image
                   src={item.product.image}
@@ -36,12 +36,12 @@ export function OrderSummary() {
                   {item.product.name}
                 </h4>
                 <p className="text-xs text-gray-600">
-                  Qty: {item.quantity}
+                  {item.plan && `${item.plan.name} · `}Qty: {item.quantity}
                 </p>
               </div>
               <div className="text-right">
                 <p className="font-medium text-sm">
-                  {formatCurrency((item.product.salePrice || item.product.price) * item.quantity)}
+                  {formatCurrency(getCartItemPrice(item) * item.quantity)}
                 </p>
               </div>
             </div>
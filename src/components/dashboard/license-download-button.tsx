@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+
+interface LicenseDownloadButtonProps {
+  licenseId: string
+}
+
+export function LicenseDownloadButton({ licenseId }: LicenseDownloadButtonProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Request a short-lived signed link, the file is never linked directly
+  const handleDownload = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/download/${licenseId}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.downloadUrl) {
+        throw new Error(data.error || 'Download failed')
+      }
+
+      window.location.href = data.downloadUrl
+      toast.success(`Download started for ${data.productName}`)
+    } catch (error) {
+      console.error('Download error:', error)
+      toast.error(error instanceof Error ? error.message : 'Download failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Button size="sm" onClick={handleDownload} disabled={isLoading}>
+      <Download className="h-4 w-4 mr-2" />
+      {isLoading ? 'Preparing...' : 'Download'}
+    </Button>
+  )
+}
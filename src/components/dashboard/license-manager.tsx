@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { 
   Table,
   TableBody,
@@ -19,6 +20,21 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { 
   MoreHorizontal, 
   Download, 
@@ -27,29 +43,85 @@ import {
   CheckCircle,
   XCircle,
   Clock,
-  Search
+  Search,
+  Monitor,
+  Trash2,
+  RefreshCw,
+  RotateCcw
 } from 'lucide-react'
 import { toast } from 'sonner'
+import { formatCurrency } from '@/lib/utils'
+
+interface LicenseActivation {
+  id: string
+  deviceName: string | null
+  ipAddress: string | null
+  lastSeenAt: string
+  createdAt: string
+}
+
+interface RenewalOption {
+  planId: string
+  name: string
+  durationDays: number
+  price: number
+  regularPrice: number
+  newExpiresAt: string
+}
+
+const renewalPaymentMethods = [
+  { value: 'DUITKU_VA', label: 'Virtual Account' },
+  { value: 'DUITKU_EWALLET', label: 'E-Wallet' },
+  { value: 'DUITKU_QRIS', label: 'QRIS' },
+  { value: 'DUITKU_CREDIT_CARD', label: 'Credit Card' },
+]
 
 interface License {
   id: string
   licenseKey: string
   status: 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+  isTrial: boolean
   createdAt: string
   expiresAt: string | null
+  updatesUntil: string | null
   downloadCount: number
+  activations: LicenseActivation[]
   product: {
     id: string
     name: string
-    downloadUrl: string
+    maxActivations: number
   }
 }
 
+interface HardwareResetStatus {
+  allowed: boolean
+  error?: string
+  nextResetAt: string | null
+  resetsThisMonth: number
+  monthlyLimit: number
+  cooldownDays: number
+  requiresTwoFactor: boolean
+  requiresPassword: boolean
+}
+
 export function LicenseManager() {
   const { data: session } = useSession()
   const [licenses, setLicenses] = useState<License[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
+  const [devicesLicenseId, setDevicesLicenseId] = useState<string | null>(null)
+  const [deactivatingId, setDeactivatingId] = useState<string | null>(null)
+  const [renewLicenseId, setRenewLicenseId] = useState<string | null>(null)
+  const [renewalOptions, setRenewalOptions] = useState<RenewalOption[]>([])
+  const [renewalError, setRenewalError] = useState<string | null>(null)
+  const [selectedRenewalPlanId, setSelectedRenewalPlanId] = useState<string | null>(null)
+  const [renewalPaymentMethod, setRenewalPaymentMethod] = useState('DUITKU_VA')
+  const [isRenewing, setIsRenewing] = useState(false)
+  const [resetLicenseId, setResetLicenseId] = useState<string | null>(null)
+  const [resetStatus, setResetStatus] = useState<HardwareResetStatus | null>(null)
+  const [resetPassword, setResetPassword] = useState('')
+  const [resetToken, setResetToken] = useState('')
+  const [isResetting, setIsResetting] = useState(false)
 
   // Fetch licenses
   useEffect(() => {
@@ -119,6 +191,156 @@ export function LicenseManager() {
     }
   }
 
+  const handleDeactivateDevice = async (license: License, activation: LicenseActivation) => {
+    if (!confirm(`Deactivate ${activation.deviceName || 'this device'}? The license will stop working on it.`)) {
+      return
+    }
+
+    try {
+      setDeactivatingId(activation.id)
+      const response = await fetch(
+        `/api/dashboard/licenses/${license.id}/activations/${activation.id}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to deactivate device')
+      }
+
+      setLicenses(prev => prev.map(item =>
+        item.id === license.id
+          ? { ...item, activations: item.activations.filter(a => a.id !== activation.id) }
+          : item
+      ))
+      toast.success('Device deactivated, activation slot freed')
+    } catch (error) {
+      console.error('Deactivate device error:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Failed to deactivate device'
+      toast.error(errorMessage)
+    } finally {
+      setDeactivatingId(null)
+    }
+  }
+
+  const openRenewDialog = async (license: License) => {
+    setRenewLicenseId(license.id)
+    setRenewalOptions([])
+    setRenewalError(null)
+    setSelectedRenewalPlanId(null)
+
+    try {
+      const response = await fetch(`/api/dashboard/licenses/${license.id}/renew`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setRenewalError(data.error || 'Renewal is not available for this license')
+        return
+      }
+
+      setRenewalOptions(data.options)
+      setSelectedRenewalPlanId(data.options[0]?.planId ?? null)
+    } catch (error) {
+      console.error('Fetch renewal options error:', error)
+      setRenewalError('Failed to load renewal options')
+    }
+  }
+
+  const handleRenew = async () => {
+    if (!renewLicenseId || !selectedRenewalPlanId) return
+
+    try {
+      setIsRenewing(true)
+      const response = await fetch(`/api/dashboard/licenses/${renewLicenseId}/renew`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          planId: selectedRenewalPlanId,
+          paymentMethod: renewalPaymentMethod
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create renewal order')
+      }
+
+      window.location.href = data.instructionsUrl || data.paymentUrl
+    } catch (error) {
+      console.error('Renew license error:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create renewal order'
+      toast.error(errorMessage)
+      setIsRenewing(false)
+    }
+  }
+
+  const openResetDialog = async (license: License) => {
+    setResetLicenseId(license.id)
+    setResetStatus(null)
+    setResetPassword('')
+    setResetToken('')
+
+    try {
+      const response = await fetch(`/api/dashboard/licenses/${license.id}/hardware-reset`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load reset status')
+      }
+
+      setResetStatus(data)
+    } catch (error) {
+      console.error('Fetch hardware reset status error:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Failed to load reset status'
+      toast.error(errorMessage)
+      setResetLicenseId(null)
+    }
+  }
+
+  const handleHardwareReset = async () => {
+    if (!resetLicenseId) return
+
+    try {
+      setIsResetting(true)
+      const response = await fetch(`/api/dashboard/licenses/${resetLicenseId}/hardware-reset`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          password: resetPassword || undefined,
+          token: resetToken || undefined
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset hardware binding')
+      }
+
+      setLicenses(prev => prev.map(item =>
+        item.id === resetLicenseId ? { ...item, activations: [] } : item
+      ))
+      setResetLicenseId(null)
+      toast.success(data.message)
+    } catch (error) {
+      console.error('Hardware reset error:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reset hardware binding'
+      toast.error(errorMessage)
+    } finally {
+      setIsResetting(false)
+    }
+  }
+
+  const devicesLicense = licenses.find(license => license.id === devicesLicenseId) || null
+  const renewLicense = licenses.find(license => license.id === renewLicenseId) || null
+  const resetLicense = licenses.find(license => license.id === resetLicenseId) || null
+  const selectedRenewalOption = renewalOptions.find(option => option.planId === selectedRenewalPlanId)
+
   const getStatusBadge = (status: License['status']) => {
     const statusConfig = {
       ACTIVE: { 
@@ -199,6 +421,7 @@ export function LicenseManager() {
               <TableHead>Created</TableHead>
               <TableHead>Expires</TableHead>
               <TableHead>Downloads</TableHead>
+              <TableHead>Devices</TableHead>
               <TableHead className="w-[50px]"></TableHead>
             </TableRow>
           </TableHeader>
@@ -206,7 +429,12 @@ export function LicenseManager() {
             {filteredLicenses.map((license) => (
               <TableRow key={license.id}>
                 <TableCell className="font-medium">
-                  {license.product.name}
+                  <div className="flex items-center gap-2">
+                    {license.product.name}
+                    {license.isTrial && (
+                      <Badge variant="outline">Trial</Badge>
+                    )}
+                  </div>
                 </TableCell>
                 <TableCell>
                   <div className="flex items-center gap-2">
@@ -231,10 +459,19 @@ export function LicenseManager() {
                 </TableCell>
                 <TableCell className="text-sm text-gray-500">
                   {license.expiresAt ? formatDate(license.expiresAt) : 'Never'}
+                  {license.updatesUntil && (
+                    <div className="text-xs">
+                      {new Date(license.updatesUntil) > new Date() ? 'Updates until' : 'Updates ended'}{' '}
+                      {formatDate(license.updatesUntil)}
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell className="text-sm">
                   {license.downloadCount}
                 </TableCell>
+                <TableCell className="text-sm">
+                  {license.activations.length}/{license.product.maxActivations}
+                </TableCell>
                 <TableCell>
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -257,6 +494,28 @@ export function LicenseManager() {
                           Download Product
                         </DropdownMenuItem>
                       )}
+                      <DropdownMenuItem
+                        onClick={() => setDevicesLicenseId(license.id)}
+                      >
+                        <Monitor className="mr-2 h-4 w-4" />
+                        Manage Devices
+                      </DropdownMenuItem>
+                      {license.status === 'ACTIVE' && license.activations.length > 0 && (
+                        <DropdownMenuItem
+                          onClick={() => openResetDialog(license)}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Reset Hardware Binding
+                        </DropdownMenuItem>
+                      )}
+                      {license.expiresAt && !license.isTrial && license.status !== 'REVOKED' && (
+                        <DropdownMenuItem
+                          onClick={() => openRenewDialog(license)}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          Renew License
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
@@ -273,6 +532,229 @@ export function LicenseManager() {
           </p>
         </div>
       )}
+
+      {/* Activated devices */}
+      <Dialog
+        open={devicesLicense !== null}
+        onOpenChange={(open) => !open && setDevicesLicenseId(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Activated Devices</DialogTitle>
+            <DialogDescription>
+              {devicesLicense && (
+                <>
+                  {devicesLicense.product.name} is active on {devicesLicense.activations.length} of{' '}
+                  {devicesLicense.product.maxActivations} allowed device
+                  {devicesLicense.product.maxActivations !== 1 ? 's' : ''}.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {devicesLicense && devicesLicense.activations.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">
+              No devices have been activated with this license yet
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {devicesLicense?.activations.map((activation) => (
+                <div
+                  key={activation.id}
+                  className="flex items-center justify-between rounded-md border p-3"
+                >
+                  <div className="flex items-start gap-3">
+                    <Monitor className="h-5 w-5 text-gray-400 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-medium">
+                        {activation.deviceName || 'Unnamed device'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Last seen {formatDate(activation.lastSeenAt)}
+                        {activation.ipAddress && ` · ${activation.ipAddress}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeactivateDevice(devicesLicense, activation)}
+                    disabled={deactivatingId === activation.id}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Hardware reset */}
+      <Dialog
+        open={resetLicense !== null}
+        onOpenChange={(open) => !open && setResetLicenseId(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Hardware Binding</DialogTitle>
+            <DialogDescription>
+              {resetLicense && (
+                <>
+                  Removes all {resetLicense.activations.length} device
+                  {resetLicense.activations.length !== 1 ? 's' : ''} from your {resetLicense.product.name} license,
+                  for example after reinstalling Windows. You can then activate it again.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!resetStatus ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse" />
+          ) : !resetStatus.allowed ? (
+            <p className="text-sm text-gray-500 py-4 text-center">
+              {resetStatus.error}
+              {resetStatus.nextResetAt && `. Next reset available on ${formatDate(resetStatus.nextResetAt)}.`}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500">
+                {resetStatus.cooldownDays > 0 && `Resets are limited to one every ${resetStatus.cooldownDays} days`}
+                {resetStatus.cooldownDays > 0 && resetStatus.monthlyLimit > 0 && ' and '}
+                {resetStatus.monthlyLimit > 0 && `${resetStatus.monthlyLimit} per 30 days (${resetStatus.resetsThisMonth} used)`}
+                {(resetStatus.cooldownDays > 0 || resetStatus.monthlyLimit > 0) && '. '}
+                We&apos;ll email you a security notice after the reset.
+              </p>
+
+              {resetStatus.requiresTwoFactor && (
+                <div className="space-y-2">
+                  <Label htmlFor="resetToken">Authentication Code</Label>
+                  <Input
+                    id="resetToken"
+                    value={resetToken}
+                    onChange={(e) => setResetToken(e.target.value)}
+                    placeholder="6-digit code or backup code"
+                    autoComplete="one-time-code"
+                  />
+                </div>
+              )}
+
+              {resetStatus.requiresPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="resetPassword">Confirm Password</Label>
+                  <Input
+                    id="resetPassword"
+                    type="password"
+                    value={resetPassword}
+                    onChange={(e) => setResetPassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={handleHardwareReset}
+              disabled={
+                !resetStatus?.allowed ||
+                isResetting ||
+                (resetStatus.requiresTwoFactor && !resetToken) ||
+                (resetStatus.requiresPassword && !resetPassword)
+              }
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              {isResetting ? 'Resetting...' : 'Reset Hardware'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Renewal */}
+      <Dialog
+        open={renewLicense !== null}
+        onOpenChange={(open) => !open && setRenewLicenseId(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Renew License</DialogTitle>
+            <DialogDescription>
+              {renewLicense?.expiresAt && (
+                <>
+                  {renewLicense.product.name}{' '}
+                  {new Date(renewLicense.expiresAt) > new Date() ? 'expires' : 'expired'} on{' '}
+                  {formatDate(renewLicense.expiresAt)}. Your license key stays the same.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {renewalError ? (
+            <p className="text-sm text-gray-500 py-4 text-center">{renewalError}</p>
+          ) : renewalOptions.length === 0 ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse" />
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {renewalOptions.map((option) => (
+                  <button
+                    key={option.planId}
+                    type="button"
+                    onClick={() => setSelectedRenewalPlanId(option.planId)}
+                    className={`rounded-md border-2 p-3 text-left transition-colors ${
+                      option.planId === selectedRenewalPlanId
+                        ? 'border-primary'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <p className="text-sm font-medium">{option.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {formatCurrency(option.price)}
+                      {option.price < option.regularPrice && (
+                        <span className="ml-1 text-xs text-gray-400 line-through">
+                          {formatCurrency(option.regularPrice)}
+                        </span>
+                      )}
+                    </p>
+                  </button>
+                ))}
+              </div>
+
+              <Select value={renewalPaymentMethod} onValueChange={setRenewalPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Payment method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {renewalPaymentMethods.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {selectedRenewalOption && (
+                <p className="text-sm text-gray-500">
+                  New expiry date: {formatDate(selectedRenewalOption.newExpiresAt)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              onClick={handleRenew}
+              disabled={!selectedRenewalOption || isRenewing}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {selectedRenewalOption ? `Renew for ${formatCurrency(selectedRenewalOption.price)}` : 'Renew'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
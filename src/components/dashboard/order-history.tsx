@@ -43,7 +43,7 @@ interface OrderItem {
 
 interface Order {
   id: string
-  status: 'PENDING' | 'PAID' | 'FAILED' | 'CANCELLED' | 'REFUNDED'
+  status: 'PENDING' | 'PAID' | 'FAILED' | 'CANCELLED' | 'REFUNDED' | 'NEEDS_REVIEW'
   total: number
   paymentMethod: string
   createdAt: string
@@ -124,6 +124,11 @@ export function OrderHistory() {
         variant: 'outline' as const, 
         icon: AlertTriangle, 
         label: 'Refunded' 
+      },
+      NEEDS_REVIEW: { 
+        variant: 'secondary' as const, 
+        icon: Clock, 
+        label: 'Under review' 
       }
     }
 
@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { CheckCircle, Clock, FlaskConical, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { formatCurrency } from '@/lib/utils'
+import { toast } from 'sonner'
+
+interface MockGatewayContentProps {
+  orderId: string
+  total: number
+  status: string
+  reference: string | null
+  paymentMethod: string
+}
+
+type Outcome = 'pay' | 'fail' | 'expire'
+
+export function MockGatewayContent({ orderId, total, status, reference, paymentMethod }: MockGatewayContentProps) {
+  const router = useRouter()
+  const [pendingOutcome, setPendingOutcome] = useState<Outcome | null>(null)
+
+  const handleOutcome = async (outcome: Outcome) => {
+    setPendingOutcome(outcome)
+
+    try {
+      const response = await fetch(`/api/payment/mock/${orderId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ outcome })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success('Callback delivered')
+        router.push(`/payment/instructions/${orderId}`)
+      } else {
+        toast.error(data.callbackResult?.error || data.error || `Callback failed with status ${data.callbackStatus}`)
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setPendingOutcome(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FlaskConical className="h-5 w-5 mr-2" />
+            Mock Payment Gateway
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Alert>
+            <AlertDescription>
+              Development only. No money moves; each button sends a signed callback to this app.
+            </AlertDescription>
+          </Alert>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Order</span>
+              <span className="font-mono">{orderId}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Reference</span>
+              <span className="font-mono">{reference || '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Method</span>
+              <span>{paymentMethod}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Status</span>
+              <span>{status}</span>
+            </div>
+            <div className="flex justify-between text-lg font-semibold">
+              <span>Amount</span>
+              <span>{formatCurrency(total)}</span>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Button onClick={() => handleOutcome('pay')} disabled={pendingOutcome !== null}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              {pendingOutcome === 'pay' ? 'Paying...' : 'Pay'}
+            </Button>
+            <Button variant="destructive" onClick={() => handleOutcome('fail')} disabled={pendingOutcome !== null}>
+              <XCircle className="h-4 w-4 mr-2" />
+              {pendingOutcome === 'fail' ? 'Failing...' : 'Fail'}
+            </Button>
+            <Button variant="outline" onClick={() => handleOutcome('expire')} disabled={pendingOutcome !== null}>
+              <Clock className="h-4 w-4 mr-2" />
+              {pendingOutcome === 'expire' ? 'Expiring...' : 'Expire'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
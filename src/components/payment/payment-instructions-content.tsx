@@ -11,7 +11,8 @@ import {
   RefreshCw,
   QrCode,
   Building2,
-  Smartphone
+  Smartphone,
+  ExternalLink
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -21,6 +22,8 @@ import { MainLayout } from '@/components/layout/main-layout'
 import { formatCurrency, copyToClipboard } from '@/lib/utils'
 import { toast } from 'sonner'
 import Link from 'next/link'
+import Image from 'next/image'
+import QRCode from 'qrcode'
 
 interface PaymentInstructionsContentProps {
   orderId: string
@@ -51,6 +54,7 @@ export function PaymentInstructionsContent({ orderId }: PaymentInstructionsConte
   const [orderData, setOrderData] = useState<OrderData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null)
 
   const fetchOrderStatus = async () => {
     try {
@@ -83,6 +87,15 @@ export function PaymentInstructionsContent({ orderId }: PaymentInstructionsConte
     return () => clearInterval(interval)
   }, [orderId, orderData?.status])
 
+  useEffect(() => {
+    const qrString = orderData?.paymentData.qrString
+    if (!qrString) return
+
+    QRCode.toDataURL(qrString, { width: 192, margin: 1 })
+      .then(setQrCodeUrl)
+      .catch(error => console.error('QR code generation error:', error))
+  }, [orderData?.paymentData.qrString])
+
   const handleRefresh = () => {
     setIsRefreshing(true)
     fetchOrderStatus()
@@ -319,10 +332,19 @@ export function PaymentInstructionsContent({ orderId }: PaymentInstructionsConte
                   <CardContent className="space-y-4">
                     <div className="text-center">
                       <div className="bg-white p-4 rounded-lg border inline-block">
-                        {/* QR Code would be generated here */}
-                        <div className="w-48 h-48 bg-gray-200 flex items-center justify-center">
-                          <QrCode className="h-16 w-16 text-gray-400" />
-                        </div>
+                        {qrCodeUrl ? (
+                          <Image
+                            src={qrCodeUrl}
+                            alt="QRIS payment code"
+                            width={192}
+                            height={192}
+                            className="w-48 h-48"
+                          />
+                        ) : (
+                          <div className="w-48 h-48 bg-gray-200 flex items-center justify-center">
+                            <QrCode className="h-16 w-16 text-gray-400" />
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -340,6 +362,43 @@ export function PaymentInstructionsContent({ orderId }: PaymentInstructionsConte
                 </Card>
               )}
 
+              {/* Hosted payment page, used by e-wallets and cards */}
+              {orderData.paymentData.paymentUrl && !orderData.paymentData.vaNumber && !orderData.paymentData.qrString && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Smartphone className="h-5 w-5 mr-2" />
+                      Complete Payment
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      Continue to the payment page to finish paying {formatCurrency(orderData.total)}.
+                    </p>
+                    <Button asChild>
+                      <a href={orderData.paymentData.paymentUrl}>
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Continue to Payment
+                      </a>
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {orderData.paymentData.reference && (
+                <p className="text-sm text-gray-500 text-center">
+                  Payment reference: <span className="font-mono">{orderData.paymentData.reference}</span>
+                  {orderData.paymentData.paymentUrl && (orderData.paymentData.vaNumber || orderData.paymentData.qrString) && (
+                    <>
+                      {' · '}
+                      <a href={orderData.paymentData.paymentUrl} className="text-primary hover:underline">
+                        Open payment page
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
+
               {/* Order Items */}
               <Card>
                 <CardHeader>
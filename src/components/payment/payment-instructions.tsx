@@ -79,6 +79,8 @@ export function PaymentInstructions({ order }: PaymentInstructionsProps) {
         router.push(`/payment/success/${order.id}`)
       } else if (data.status === 'FAILED' || data.status === 'CANCELLED') {
         router.push(`/payment/error/${order.id}`)
+      } else if (data.status === 'NEEDS_REVIEW') {
+        toast.info('Your payment is being reviewed. We will contact you shortly.')
       } else {
         toast.info('Payment is still pending')
       }
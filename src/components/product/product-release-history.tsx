@@ -0,0 +1,160 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { History, ShieldCheck } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import type { ProductRelease } from '@/types'
+
+interface ProductReleaseHistoryProps {
+  productId: string
+}
+
+// Changelogs only use headings, bullet lists and paragraphs
+function renderChangelog(markdown: string) {
+  return markdown.split(/\r?\n/).map((line, index) => {
+    const text = line.trim()
+
+    if (!text) return null
+
+    if (text.startsWith('#')) {
+      return (
+        <h5 key={index} className="font-semibold text-gray-900 mt-3 first:mt-0">
+          {text.replace(/^#+\s*/, '')}
+        </h5>
+      )
+    }
+
+    if (/^[-*]\s+/.test(text)) {
+      return (
+        <li key={index} className="ml-5 list-disc">
+          {text.replace(/^[-*]\s+/, '')}
+        </li>
+      )
+    }
+
+    return <p key={index}>{text}</p>
+  })
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function ProductReleaseHistory({ productId }: ProductReleaseHistoryProps) {
+  const [releases, setReleases] = useState<ProductRelease[]>([])
+  const [channel, setChannel] = useState<string>('all')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchReleases = async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (channel !== 'all') {
+        params.append('channel', channel)
+      }
+
+      const response = await fetch(`/api/products/${productId}/releases?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setReleases(data.releases)
+      } else {
+        toast.error('Failed to load release history')
+      }
+    } catch (error) {
+      console.error('Failed to fetch releases:', error)
+      toast.error('Failed to load release history')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReleases()
+  }, [productId, channel])
+
+  const latestStableId = releases.find(release => release.channel === 'STABLE')?.id
+
+  if (isLoading && releases.length === 0) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-32 bg-gray-100 rounded animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Release History</CardTitle>
+          <Select value={channel} onValueChange={setChannel}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Channel" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Releases</SelectItem>
+              <SelectItem value="STABLE">Stable Only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {releases.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No releases published yet</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {releases.map((release, index) => (
+              <motion.div
+                key={release.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="border-l-2 border-gray-200 pl-4"
+              >
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <h4 className="font-semibold text-gray-900">v{release.version}</h4>
+                  {release.channel === 'BETA' ? (
+                    <Badge variant="outline" className="text-orange-600 border-orange-300">Beta</Badge>
+                  ) : (
+                    release.id === latestStableId && <Badge className="bg-green-100 text-green-800">Latest</Badge>
+                  )}
+                  <span className="text-sm text-gray-500">
+                    {new Date(release.releasedAt).toLocaleDateString('id-ID')}
+                  </span>
+                  {release.fileSize && (
+                    <span className="text-sm text-gray-500">· {formatFileSize(release.fileSize)}</span>
+                  )}
+                </div>
+
+                <div className="text-sm text-gray-700 space-y-1">
+                  {renderChangelog(release.changelog)}
+                </div>
+
+                <p className="flex items-center text-xs text-gray-400 mt-3 font-mono break-all">
+                  <ShieldCheck className="h-3 w-3 mr-1 flex-shrink-0" />
+                  SHA-256 {release.sha256}
+                </p>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -23,12 +23,14 @@ import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ProductCard } from '@/components/common/product-card'
+import { toast } from 'sonner'
 import { useCart } from '@/hooks/use-cart'
-import { formatCurrency, calculateDiscount } from '@/lib/utils'
+import { formatCurrency, formatPlanDuration, calculateDiscount } from '@/lib/utils'
 import { SAMPLE_PRODUCTS } from '@/lib/constants/sample-data'
 import { ANIMATIONS } from '@/lib/constants'
 import { ProductReviews } from '@/components/product/product-reviews'
 import { RelatedProducts } from '@/components/product/related-products'
+import { ProductReleaseHistory } from '@/components/product/product-release-history'
 import type { Product } from '@/types'
 
 interface ProductDetailContentProps {
@@ -41,14 +43,42 @@ export function ProductDetailContent({ product }: ProductDetailContentProps) {
   const [isImageModalOpen, setIsImageModalOpen] = useState(false)
   const [isVideoPlaying, setIsVideoPlaying] = useState(false)
   const { addToCart, isInCart } = useCart()
-  
-  const isProductInCart = isInCart(product.id)
-  const discount = product.originalPrice ? calculateDiscount(product.originalPrice, product.price) : 0
-  
+  const plans = product.plans?.filter(plan => plan.isActive) ?? []
+  const [selectedPlanId, setSelectedPlanId] = useState(plans[0]?.id)
+  const selectedPlan = plans.find(plan => plan.id === selectedPlanId)
 
+  const isProductInCart = isInCart(product.id, selectedPlan?.id)
+  const price = selectedPlan?.price ?? product.price
+  const discount = product.originalPrice && !selectedPlan ? calculateDiscount(product.originalPrice, product.price) : 0
+
+  const [isClaimingTrial, setIsClaimingTrial] = useState(false)
 
   const handleAddToCart = () => {
-    addToCart(product)
+    addToCart(product, 1, selectedPlan)
+  }
+
+  const handleClaimTrial = async () => {
+    try {
+      setIsClaimingTrial(true)
+      const response = await fetch(`/api/products/${product.id}/trial`, { method: 'POST' })
+      const data = await response.json()
+
+      if (response.status === 401) {
+        toast.error('Please sign in to start a trial')
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start trial')
+      }
+
+      toast.success('Trial started! Your license key is in your dashboard.')
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start trial'
+      toast.error(errorMessage)
+    } finally {
+      setIsClaimingTrial(false)
+    }
   }
 
   const nextImage = () => {
@@ -212,9 +242,14 @@ export function ProductDetailContent({ product }: ProductDetailContentProps) {
             <div className="mb-8">
               <div className="flex items-center space-x-4 mb-2">
                 <span className="text-4xl font-bold text-primary">
-                  {formatCurrency(product.price)}
+                  {formatCurrency(price)}
                 </span>
-                {product.originalPrice && (
+                {selectedPlan && (
+                  <span className="text-lg text-gray-500">
+                    / {formatPlanDuration(selectedPlan.durationDays).toLowerCase()}
+                  </span>
+                )}
+                {!selectedPlan && product.originalPrice && (
                   <span className="text-xl text-gray-500 line-through">
                     {formatCurrency(product.originalPrice)}
                   </span>
@@ -259,6 +294,27 @@ export function ProductDetailContent({ product }: ProductDetailContentProps) {
                   Secure purchase with instant delivery
                 </span>
               </div>
+
+              {/* Plan Selection */}
+              {plans.length > 0 && (
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  {plans.map((plan) => (
+                    <button
+                      key={plan.id}
+                      type="button"
+                      onClick={() => setSelectedPlanId(plan.id)}
+                      className={`rounded-xl border-2 p-3 text-left transition-colors ${
+                        plan.id === selectedPlanId
+                          ? 'border-primary bg-white'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <p className="font-medium text-gray-900">{plan.name}</p>
+                      <p className="text-sm text-gray-600">{formatCurrency(plan.price)}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
               
               <div className="flex space-x-4">
                 <motion.div
@@ -284,6 +340,18 @@ export function ProductDetailContent({ product }: ProductDetailContentProps) {
                   Demo
                 </Button>
               </div>
+
+              {product.trialDays && (
+                <Button
+                  variant="link"
+                  onClick={handleClaimTrial}
+                  disabled={isClaimingTrial}
+                  className="w-full mt-2"
+                >
+                  <Clock className="h-4 w-4 mr-2" />
+                  {isClaimingTrial ? 'Starting trial...' : `Try it free for ${formatPlanDuration(product.trialDays)}`}
+                </Button>
+              )}
             </div>
 
             {/* Product Info Cards */}
@@ -312,10 +380,11 @@ export function ProductDetailContent({ product }: ProductDetailContentProps) {
           className="mb-16"
         >
           <Tabs value={selectedTab} onValueChange={setSelectedTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4 mb-8">
+            <TabsList className="grid w-full grid-cols-5 mb-8">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="features">Features</TabsTrigger>
               <TabsTrigger value="compatibility">Compatibility</TabsTrigger>
+              <TabsTrigger value="releases">Releases</TabsTrigger>
               <TabsTrigger value="reviews">Reviews</TabsTrigger>
             </TabsList>
 
@@ -449,6 +518,10 @@ export function ProductDetailContent({ product }: ProductDetailContentProps) {
               </Card>
             </TabsContent>
 
+            <TabsContent value="releases" className="space-y-6">
+              <ProductReleaseHistory productId={product.id} />
+            </TabsContent>
+
             <TabsContent value="reviews" className="space-y-6">
               <ProductReviews productId={product.id} />
             </TabsContent>
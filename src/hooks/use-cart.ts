@@ -3,7 +3,7 @@
 import { useState, useCallback, useMemo } from 'react'
 import { useLocalStorage } from './use-local-storage'
 import { toast } from 'sonner'
-import type { CartItem, Product } from '@/types'
+import type { CartItem, Product, ProductPlan } from '@/types'
 
 interface CartSummary {
   subtotal: number
@@ -14,14 +14,24 @@ interface CartSummary {
 }
 
 interface CartActions {
-  addToCart: (product: Product, quantity?: number) => void
-  removeFromCart: (productId: string) => void
-  updateQuantity: (productId: string, quantity: number) => void
+  addToCart: (product: Product, quantity?: number, plan?: ProductPlan) => void
+  removeFromCart: (productId: string, planId?: string) => void
+  updateQuantity: (productId: string, quantity: number, planId?: string) => void
   clearCart: () => void
   applyDiscount: (code: string) => Promise<boolean>
   removeDiscount: () => void
 }
 
+// Items of the same product bought on different plans are separate cart lines
+function isSameCartItem(item: CartItem, productId: string, planId?: string) {
+  return item.productId === productId && (item.planId ?? null) === (planId ?? null)
+}
+
+// Unit price of a cart line, plan price takes precedence over the product price
+export function getCartItemPrice(item: CartItem): number {
+  return item.plan?.price ?? (item.product.salePrice || item.product.price)
+}
+
 export function useCart() {
   const [cartItems, setCartItems] = useLocalStorage<CartItem[]>('nusantarahax-cart', [])
   const [discountCode, setDiscountCode] = useLocalStorage<string>('nusantarahax-discount', '')
@@ -31,28 +41,31 @@ export function useCart() {
   // Tax rate (11% PPN Indonesia)
   const TAX_RATE = 0.11
 
-  const addToCart = useCallback((product: Product, quantity: number = 1) => {
+  const addToCart = useCallback((product: Product, quantity: number = 1, plan?: ProductPlan) => {
     setIsLoading(true)
 
     try {
       setCartItems(currentItems => {
-        const existingItem = currentItems.find(item => item.productId === product.id)
+        const existingItem = currentItems.find(item => isSameCartItem(item, product.id, plan?.id))
+        const itemName = plan ? `${product.name} (${plan.name})` : product.name
 
         if (existingItem) {
           const newQuantity = existingItem.quantity + quantity
-          toast.success(`Updated ${product.name} quantity to ${newQuantity}`)
+          toast.success(`Updated ${itemName} quantity to ${newQuantity}`)
           return currentItems.map(item =>
-            item.productId === product.id
+            isSameCartItem(item, product.id, plan?.id)
               ? { ...item, quantity: newQuantity }
               : item
           )
         }
 
-        toast.success(`Added ${product.name} to cart`)
+        toast.success(`Added ${itemName} to cart`)
         return [...currentItems, {
           productId: product.id,
+          planId: plan?.id,
           quantity,
           product,
+          plan,
           addedAt: new Date().toISOString()
         }]
       })
@@ -64,16 +77,16 @@ export function useCart() {
     }
   }, [setCartItems])
 
-  const removeFromCart = useCallback((productId: string) => {
+  const removeFromCart = useCallback((productId: string, planId?: string) => {
     setIsLoading(true)
 
     try {
       setCartItems(currentItems => {
-        const item = currentItems.find(item => item.productId === productId)
+        const item = currentItems.find(item => isSameCartItem(item, productId, planId))
         if (item) {
           toast.success(`Removed ${item.product.name} from cart`)
         }
-        return currentItems.filter(item => item.productId !== productId)
+        return currentItems.filter(item => !isSameCartItem(item, productId, planId))
       })
     } catch (error) {
       toast.error('Failed to remove item from cart')
@@ -83,16 +96,16 @@ export function useCart() {
     }
   }, [setCartItems])
 
-  const updateQuantity = useCallback((productId: string, quantity: number) => {
+  const updateQuantity = useCallback((productId: string, quantity: number, planId?: string) => {
     if (quantity <= 0) {
-      removeFromCart(productId)
+      removeFromCart(productId, planId)
       return
     }
     
     setIsLoading(true)
     setCartItems(currentItems =>
       currentItems.map(item =>
-        item.productId === productId ? { ...item, quantity } : item
+        isSameCartItem(item, productId, planId) ? { ...item, quantity } : item
       )
     )
     setIsLoading(false)
@@ -157,8 +170,7 @@ export function useCart() {
   // Memoized cart calculations
   const cartSummary = useMemo((): CartSummary => {
     const subtotal = cartItems.reduce((total, item) => {
-      const price = item.product.salePrice || item.product.price
-      return total + (price * item.quantity)
+      return total + (getCartItemPrice(item) * item.quantity)
     }, 0)
 
     const discount = subtotal * discountAmount
@@ -179,12 +191,12 @@ export function useCart() {
   const getCartTotal = useCallback(() => cartSummary.total, [cartSummary.total])
   const getCartItemsCount = useCallback(() => cartSummary.itemsCount, [cartSummary.itemsCount])
 
-  const isInCart = useCallback((productId: string) => {
-    return cartItems.some(item => item.productId === productId)
+  const isInCart = useCallback((productId: string, planId?: string) => {
+    return cartItems.some(item => isSameCartItem(item, productId, planId))
   }, [cartItems])
 
-  const getCartItem = useCallback((productId: string) => {
-    return cartItems.find(item => item.productId === productId)
+  const getCartItem = useCallback((productId: string, planId?: string) => {
+    return cartItems.find(item => isSameCartItem(item, productId, planId))
   }, [cartItems])
 
   const isEmpty = useMemo(() => cartItems.length === 0, [cartItems.length])
@@ -1,5 +1,7 @@
 import { prisma } from './prisma'
-import { generateLicenseKey } from '../utils'
+import { orderLifecycle } from '../orders/order-lifecycle'
+import { INITIAL_ORDER_STATUS } from '../orders/order-status'
+import { licenseManager, type LicenseEventActor } from '../license/license-manager'
 import type { OrderStatus, PaymentMethod, LicenseStatus } from '@prisma/client'
 
 // Order operations
@@ -7,8 +9,10 @@ export async function createOrder(data: {
   userId: string
   items: Array<{
     productId: string
+    planId?: string
     quantity: number
     price: number
+    durationDays?: number | null
   }>
   paymentMethod: PaymentMethod
 }) {
@@ -21,12 +25,14 @@ export async function createOrder(data: {
       userId,
       total,
       paymentMethod,
-      status: 'PENDING',
+      status: INITIAL_ORDER_STATUS,
       items: {
         create: items.map(item => ({
           productId: item.productId,
+          planId: item.planId,
           quantity: item.quantity,
           price: item.price,
+          durationDays: item.durationDays,
         })),
       },
     },
@@ -41,30 +47,23 @@ export async function createOrder(data: {
   })
 }
 
+/**
+ * Move an order through the lifecycle. Throws when the change isn't allowed.
+ */
 export async function updateOrderStatus(orderId: string, status: OrderStatus, paymentId?: string) {
-  const order = await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      status,
-      paymentId,
-      updatedAt: new Date(),
-    },
-    include: {
-      items: {
-        include: {
-          product: true,
-        },
-      },
-      user: true,
-    },
-  })
+  if (paymentId) {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { paymentId },
+    })
+  }
 
-  // If order is paid, create licenses
-  if (status === 'PAID') {
-    await createLicensesFromOrder(order)
+  const result = await orderLifecycle.transition(orderId, status)
+  if (!result.success) {
+    throw new Error(result.error)
   }
 
-  return order
+  return getOrderById(orderId)
 }
 
 export async function getUserOrders(userId: string, limit = 10, offset = 0) {
@@ -127,27 +126,6 @@ export async function getOrderById(orderId: string, userId?: string) {
 }
 
 // License operations
-async function createLicensesFromOrder(order: any) {
-  const licenses = []
-
-  for (const item of order.items) {
-    for (let i = 0; i < item.quantity; i++) {
-      const licenseKey = generateLicenseKey()
-      
-      licenses.push({
-        userId: order.userId,
-        productId: item.productId,
-        licenseKey,
-        status: 'ACTIVE' as LicenseStatus,
-      })
-    }
-  }
-
-  return prisma.license.createMany({
-    data: licenses,
-  })
-}
-
 export async function getUserLicenses(userId: string, limit = 10, offset = 0) {
   const [licenses, total] = await Promise.all([
     prisma.license.findMany({
@@ -160,7 +138,6 @@ export async function getUserLicenses(userId: string, limit = 10, offset = 0) {
             slug: true,
             images: true,
             version: true,
-            downloadUrl: true,
           },
         },
       },
@@ -201,14 +178,23 @@ export async function getLicenseById(licenseId: string, userId?: string) {
   })
 }
 
-export async function updateLicenseStatus(licenseId: string, status: LicenseStatus) {
-  return prisma.license.update({
-    where: { id: licenseId },
-    data: {
-      status,
-      updatedAt: new Date(),
-    },
-  })
+// Status changes go through the license manager so they reach the event timeline and revocation list
+export async function updateLicenseStatus(
+  licenseId: string,
+  status: LicenseStatus,
+  reason?: string,
+  actor?: LicenseEventActor
+): Promise<boolean> {
+  switch (status) {
+    case 'ACTIVE':
+      return licenseManager.reactivateLicense(licenseId, actor)
+    case 'SUSPENDED':
+      return licenseManager.suspendLicense(licenseId, reason, actor)
+    case 'REVOKED':
+      return licenseManager.revokeLicense(licenseId, reason, actor)
+    case 'EXPIRED':
+      return licenseManager.expireLicense(licenseId, actor)
+  }
 }
 
 // Review operations
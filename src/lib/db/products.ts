@@ -78,6 +78,10 @@ export async function getProductBySlug(slug: string) {
     where: { slug },
     include: {
       category: true,
+      plans: {
+        where: { isActive: true },
+        orderBy: { sortOrder: 'asc' },
+      },
       reviews: {
         include: {
           user: {
@@ -146,6 +150,91 @@ export async function getRelatedProducts(productId: string, categoryId: string,
   })
 }
 
+// Plan queries
+export async function getProductPlans(productId: string, activeOnly = true) {
+  return prisma.productPlan.findMany({
+    where: {
+      productId,
+      ...(activeOnly ? { isActive: true } : {}),
+    },
+    orderBy: {
+      sortOrder: 'asc',
+    },
+  })
+}
+
+export type ProductPricing =
+  | {
+      success: true
+      product: { id: string; name: string; price: number }
+      plan: { id: string; name: string; durationDays: number | null } | null
+      price: number
+      durationDays: number | null
+    }
+  | {
+      success: false
+      error: string
+    }
+
+// Resolve the price and license duration a product is sold at. Products with
+// active plans must be bought through one of them, others are lifetime.
+export async function getProductPricing(productId: string, planId?: string | null): Promise<ProductPricing> {
+  const product = await prisma.product.findFirst({
+    where: { id: productId, isActive: true },
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      plans: {
+        where: { isActive: true },
+        select: {
+          id: true,
+          name: true,
+          durationDays: true,
+          price: true,
+        },
+      },
+    },
+  })
+
+  if (!product) {
+    return { success: false, error: 'Product is not available' }
+  }
+
+  const { plans, ...productInfo } = product
+
+  if (!planId) {
+    if (plans.length > 0) {
+      return { success: false, error: `Please choose a plan for ${product.name}` }
+    }
+
+    return {
+      success: true,
+      product: productInfo,
+      plan: null,
+      price: product.price,
+      durationDays: null,
+    }
+  }
+
+  const plan = plans.find(p => p.id === planId)
+  if (!plan) {
+    return { success: false, error: `Selected plan for ${product.name} is not available` }
+  }
+
+  return {
+    success: true,
+    product: productInfo,
+    plan: {
+      id: plan.id,
+      name: plan.name,
+      durationDays: plan.durationDays,
+    },
+    price: plan.price,
+    durationDays: plan.durationDays,
+  }
+}
+
 // Category queries
 export async function getCategories(activeOnly = true) {
   return prisma.category.findMany({
@@ -0,0 +1,91 @@
+import { prisma } from './prisma'
+import type { ReleaseChannel } from '@prisma/client'
+
+// Release fields safe to show customers; the storage path stays server side
+export const publicReleaseSelect = {
+  id: true,
+  version: true,
+  channel: true,
+  changelog: true,
+  fileSize: true,
+  sha256: true,
+  releasedAt: true,
+} as const
+
+// Channels a subscriber receives: beta testers also get stable releases
+function channelsFor(channel: ReleaseChannel): ReleaseChannel[] {
+  return channel === 'BETA' ? ['STABLE', 'BETA'] : ['STABLE']
+}
+
+/**
+ * Compare dotted version strings numerically, e.g. 1.10.0 > 1.9.2.
+ * Returns a negative number when a is older, positive when newer.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.replace(/^v/i, '').split(/[.-]/)
+  const right = b.replace(/^v/i, '').split(/[.-]/)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '0'
+    const y = right[i] ?? '0'
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y)
+      ? Number(x) - Number(y)
+      : x.localeCompare(y)
+
+    if (diff !== 0) {
+      return diff
+    }
+  }
+
+  return 0
+}
+
+// Whether a license whose update window ends at updatesUntil includes the release
+export function isReleaseEntitled(release: { releasedAt: Date }, updatesUntil: Date | null): boolean {
+  return !updatesUntil || release.releasedAt <= updatesUntil
+}
+
+// Release queries
+export async function getProductReleases(productId: string, channel?: ReleaseChannel) {
+  return prisma.productRelease.findMany({
+    where: {
+      productId,
+      releasedAt: { lte: new Date() },
+      ...(channel ? { channel: { in: channelsFor(channel) } } : {}),
+    },
+    select: publicReleaseSelect,
+    orderBy: {
+      releasedAt: 'desc',
+    },
+  })
+}
+
+// Pass a license's updatesUntil to get the newest release it is entitled to
+export async function getLatestRelease(
+  productId: string,
+  channel: ReleaseChannel = 'STABLE',
+  updatesUntil: Date | null = null
+) {
+  const now = new Date()
+
+  return prisma.productRelease.findFirst({
+    where: {
+      productId,
+      releasedAt: { lte: updatesUntil && updatesUntil < now ? updatesUntil : now },
+      channel: { in: channelsFor(channel) },
+    },
+    orderBy: {
+      releasedAt: 'desc',
+    },
+  })
+}
+
+export async function getProductRelease(productId: string, releaseId: string) {
+  return prisma.productRelease.findFirst({
+    where: {
+      id: releaseId,
+      productId,
+      releasedAt: { lte: new Date() },
+    },
+  })
+}
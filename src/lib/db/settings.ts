@@ -0,0 +1,34 @@
+import { prisma } from './prisma'
+
+// Setting queries
+export async function getSetting<T>(key: string, defaultValue: T): Promise<T> {
+  try {
+    const setting = await prisma.setting.findUnique({
+      where: { key },
+      select: { value: true, type: true },
+    })
+
+    if (!setting) return defaultValue
+
+    if (setting.type === 'JSON') {
+      const value = JSON.parse(setting.value)
+      // Merge so settings saved before a field existed still get its default
+      return typeof defaultValue === 'object' && defaultValue !== null
+        ? { ...defaultValue, ...value }
+        : value
+    }
+
+    if (setting.type === 'BOOLEAN') {
+      return (setting.value === 'true') as T
+    }
+
+    if (setting.type === 'NUMBER') {
+      return parseFloat(setting.value) as T
+    }
+
+    return setting.value as T
+  } catch (error) {
+    console.error(`Failed to read setting ${key}:`, error)
+    return defaultValue
+  }
+}
@@ -0,0 +1,70 @@
+import { prisma } from '@/lib/db/prisma'
+import { getSetting } from '@/lib/db/settings'
+
+export interface DownloadLimitSettings {
+  downloadsPerDay: number           // Downloads a license may start per rolling day, 0 for no limit
+  distinctIpsPerWeek: number        // Different IPs a license may download from per rolling week, 0 for no limit
+  sharingWindowHours: number        // Window the sharing analyzer looks back over
+  sharingIpThreshold: number        // Distinct IPs within the window that flag a license
+  sharingUserAgentThreshold: number // Distinct user agents within the window that flag a license
+}
+
+export type DownloadQuotaResult =
+  | { allowed: true }
+  | { allowed: false, error: string }
+
+export const DEFAULT_DOWNLOAD_LIMITS: DownloadLimitSettings = {
+  downloadsPerDay: 10,
+  distinctIpsPerWeek: 5,
+  sharingWindowHours: 24,
+  sharingIpThreshold: 4,
+  sharingUserAgentThreshold: 4
+}
+
+export async function getDownloadLimits(): Promise<DownloadLimitSettings> {
+  return getSetting('downloadSettings', DEFAULT_DOWNLOAD_LIMITS)
+}
+
+/**
+ * Check a license's download quota before another download is authorized
+ */
+export async function checkDownloadQuota(licenseId: string, ipAddress: string): Promise<DownloadQuotaResult> {
+  const limits = await getDownloadLimits()
+  const now = Date.now()
+
+  if (limits.downloadsPerDay > 0) {
+    const downloadsToday = await prisma.download.count({
+      where: {
+        licenseId,
+        downloadedAt: { gte: new Date(now - 24 * 60 * 60 * 1000) }
+      }
+    })
+
+    if (downloadsToday >= limits.downloadsPerDay) {
+      return {
+        allowed: false,
+        error: `Daily download limit reached (${limits.downloadsPerDay} per day). Please try again later.`
+      }
+    }
+  }
+
+  if (limits.distinctIpsPerWeek > 0) {
+    const recentIps = await prisma.download.groupBy({
+      by: ['ipAddress'],
+      where: {
+        licenseId,
+        downloadedAt: { gte: new Date(now - 7 * 24 * 60 * 60 * 1000) }
+      }
+    })
+
+    const isKnownIp = recentIps.some(entry => entry.ipAddress === ipAddress)
+    if (!isKnownIp && recentIps.length >= limits.distinctIpsPerWeek) {
+      return {
+        allowed: false,
+        error: `This license has been downloaded from too many locations this week (${limits.distinctIpsPerWeek} max)`
+      }
+    }
+  }
+
+  return { allowed: true }
+}
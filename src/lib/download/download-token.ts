@@ -0,0 +1,72 @@
+import crypto from 'crypto'
+
+export interface DownloadTokenPayload {
+  licenseId: string
+  userId: string
+  releaseId: string | null // Null when the product has no published releases
+}
+
+// Tokens only need to outlive the click that requested them, plus resumes
+const DOWNLOAD_TOKEN_TTL_MS = parseInt(process.env.DOWNLOAD_TOKEN_TTL_MINUTES || '60') * 60 * 1000
+
+function getSecret(): string {
+  return process.env.DOWNLOAD_TOKEN_SECRET || 'default-secret'
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('hex')
+}
+
+/**
+ * Generate a signed, short-lived token for downloading a license's file
+ */
+export function generateDownloadToken(payload: DownloadTokenPayload): string {
+  const expiryTime = Date.now() + DOWNLOAD_TOKEN_TTL_MS
+  const data = `${payload.licenseId}:${payload.userId}:${payload.releaseId || ''}:${expiryTime}`
+
+  return Buffer.from(`${data}:${sign(data)}`).toString('base64url')
+}
+
+/**
+ * Verify a download token's signature and expiry
+ */
+export function verifyDownloadToken(token: string): {
+  isValid: boolean
+  payload?: DownloadTokenPayload
+} {
+  try {
+    const decoded = Buffer.from(token, 'base64url').toString('utf8')
+    const [licenseId, userId, releaseId, expiryTime, signature] = decoded.split(':')
+
+    if (!licenseId || !userId || !expiryTime || !signature) {
+      return { isValid: false }
+    }
+
+    // Check expiry
+    if (parseInt(expiryTime) < Date.now()) {
+      return { isValid: false }
+    }
+
+    // Verify signature
+    const expectedSignature = Buffer.from(sign(`${licenseId}:${userId}:${releaseId}:${expiryTime}`))
+    const providedSignature = Buffer.from(signature)
+
+    if (
+      expectedSignature.length !== providedSignature.length ||
+      !crypto.timingSafeEqual(expectedSignature, providedSignature)
+    ) {
+      return { isValid: false }
+    }
+
+    return {
+      isValid: true,
+      payload: {
+        licenseId,
+        userId,
+        releaseId: releaseId || null
+      }
+    }
+  } catch (error) {
+    return { isValid: false }
+  }
+}
@@ -0,0 +1,88 @@
+import fs from 'fs'
+import path from 'path'
+
+export interface StoredFile {
+  absolutePath: string
+  fileName: string
+  size: number
+  modifiedAt: Date
+}
+
+export type ByteRange =
+  | { start: number, end: number }
+  | 'unsatisfiable'
+  | null
+
+// Builds live outside `public/` so they can only be reached through a download token
+const STORAGE_ROOT = path.resolve(
+  process.env.DOWNLOAD_STORAGE_DIR || path.join(process.cwd(), 'storage', 'downloads')
+)
+
+/**
+ * Look up a file in private download storage. Paths that escape the
+ * storage directory are treated as missing.
+ */
+export async function getStoredFile(relativePath: string): Promise<StoredFile | null> {
+  const absolutePath = path.resolve(STORAGE_ROOT, relativePath.replace(/^\/+/, ''))
+
+  if (!absolutePath.startsWith(STORAGE_ROOT + path.sep)) {
+    return null
+  }
+
+  try {
+    const stats = await fs.promises.stat(absolutePath)
+    if (!stats.isFile()) {
+      return null
+    }
+
+    return {
+      absolutePath,
+      fileName: path.basename(absolutePath),
+      size: stats.size,
+      modifiedAt: stats.mtime
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a single-range `Range: bytes=` header. Null means serve the whole
+ * file; multiple ranges are not supported and also serve the whole file.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) {
+    return null
+  }
+
+  const [, startText, endText] = match
+
+  if (!startText && !endText) {
+    return null
+  }
+
+  // Suffix range, e.g. "bytes=-500" for the last 500 bytes
+  if (!startText) {
+    const length = parseInt(endText)
+    if (length === 0) return 'unsatisfiable'
+    return { start: Math.max(size - length, 0), end: size - 1 }
+  }
+
+  const start = parseInt(startText)
+  const end = endText ? Math.min(parseInt(endText), size - 1) : size - 1
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable'
+  }
+
+  return { start, end }
+}
+
+/**
+ * Attachment header with an ASCII fallback name and the exact UTF-8 name
+ */
+export function getContentDisposition(fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_')
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
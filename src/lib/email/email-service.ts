@@ -1,6 +1,7 @@
 import nodemailer from 'nodemailer'
 import { prisma } from '@/lib/db/prisma'
 import { randomBytes } from 'crypto'
+import { isIP } from 'net'
 
 // Email transporter configuration
 const createTransporter = () => {
@@ -248,6 +249,90 @@ export async function sendPasswordResetEmail(userId: string, email: string, name
   }
 }
 
+// User-controlled values go into the email markup
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// The address comes from forwarding headers, so only a real IP is shown
+const formatIpAddress = (value: string) => {
+  const ip = value.split(',')[0].trim()
+  return isIP(ip) ? ip : 'unknown'
+}
+
+export async function sendHardwareResetEmail(
+  email: string,
+  name: string,
+  details: { productName: string, licenseKey: string, ipAddress: string, resetAt: Date }
+) {
+  try {
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+    const ipAddress = formatIpAddress(details.ipAddress)
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>License Hardware Reset - NusantaraHax</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; background: #dc3545; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>🔐 NusantaraHax</h1>
+              <p>License Hardware Reset</p>
+            </div>
+            <div class="content">
+              <h2>Hello ${escapeHtml(name)}!</h2>
+              <p>The hardware binding of your <strong>${escapeHtml(details.productName)}</strong> license was just reset. All devices were signed out and the license can be activated again on a new device.</p>
+              
+              <p style="background: #eee; padding: 10px; border-radius: 5px;">
+                License: ${escapeHtml(details.licenseKey)}<br>
+                Time: ${details.resetAt.toLocaleString('id-ID')}<br>
+                IP address: ${ipAddress}
+              </p>
+              
+              <p>If you didn't do this, change your password right away and contact support.</p>
+              
+              <div style="text-align: center;">
+                <a href="${baseUrl}/dashboard/settings" class="button">Review Account Security</a>
+              </div>
+              
+              <div class="footer">
+                <p>Best regards,<br>The NusantaraHax Team</p>
+                <p><small>This is an automated email. Please do not reply to this message.</small></p>
+              </div>
+            </div>
+          </div>
+        </body>
+      </html>
+    `
+
+    const result = await sendEmail({
+      to: email,
+      subject: 'Your License Hardware Was Reset - NusantaraHax',
+      html
+    })
+
+    return result
+  } catch (error) {
+    console.error('Failed to send hardware reset email:', error)
+    return { success: false, error: 'Failed to send hardware reset email' }
+  }
+}
+
 // Clean up expired tokens (should be run periodically)
 export async function cleanupExpiredTokens() {
   try {
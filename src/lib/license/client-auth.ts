@@ -0,0 +1,247 @@
+import crypto from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { getSetting } from '@/lib/db/settings'
+
+export interface ClientApiSettings {
+  requireSignedRequests: boolean    // Reject unsigned license API requests
+  allowGetValidation: boolean       // Deprecated GET /api/license/validate?key=
+  timestampToleranceSeconds: number // Accepted clock skew between client and server
+  validationsPerKeyPerMinute: number
+  requestsPerKeyPerMinute: number   // Activation, deactivation and lease requests
+  requireDeviceActivation: boolean  // Validation and leases only for devices holding an activation
+}
+
+export interface ClientCredential {
+  id: string
+  productId: string
+  clientId: string
+}
+
+export type SignedRequestResult =
+  | {
+      success: true
+      credential: ClientCredential
+      nonce: string
+    }
+  | {
+      success: false
+      error: string
+    }
+
+// Clients already in the field send unsigned requests, so signing is only
+// enforced once an admin turns it on; until then those requests are flagged
+// as deprecated
+export const DEFAULT_CLIENT_API_SETTINGS: ClientApiSettings = {
+  requireSignedRequests: false,
+  allowGetValidation: true,
+  timestampToleranceSeconds: 300,
+  validationsPerKeyPerMinute: 10,
+  requestsPerKeyPerMinute: 20,
+  requireDeviceActivation: false
+}
+
+export const CLIENT_AUTH_HEADERS = {
+  clientId: 'x-client-id',
+  timestamp: 'x-timestamp',
+  nonce: 'x-nonce',
+  signature: 'x-signature',
+} as const
+
+// Client ids ship inside public builds, so a guessable server secret would expose every client secret
+function getServerSecret(): string {
+  const secret = process.env.CLIENT_CREDENTIAL_SECRET
+  if (secret) {
+    return secret
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('CLIENT_CREDENTIAL_SECRET must be set to verify signed license API requests')
+  }
+
+  return 'development-client-credential-secret'
+}
+
+function sha256(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(secret: string, data: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('hex')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+export async function getClientApiSettings(): Promise<ClientApiSettings> {
+  return getSetting('clientApiSettings', DEFAULT_CLIENT_API_SETTINGS)
+}
+
+/**
+ * Secret for a client id. Derived rather than stored, so a database leak
+ * doesn't expose it; rotating the server secret invalidates every credential.
+ */
+export function getClientSecret(clientId: string): string {
+  return crypto.createHmac('sha256', getServerSecret()).update(`client:${clientId}`).digest('base64url')
+}
+
+/**
+ * Create a credential for a product. The secret is only returned here.
+ */
+export async function createClientCredential(productId: string, name: string) {
+  const clientId = `nhc_${crypto.randomBytes(12).toString('hex')}`
+
+  const credential = await prisma.productClientCredential.create({
+    data: { productId, name, clientId }
+  })
+
+  return { credential, clientSecret: getClientSecret(clientId) }
+}
+
+/**
+ * String a client signs: method, path, timestamp, nonce and body hash, one per line
+ */
+export function getRequestSigningPayload(
+  method: string,
+  path: string,
+  timestamp: string,
+  nonce: string,
+  body: string
+): string {
+  return [method.toUpperCase(), path, timestamp, nonce, sha256(body)].join('\n')
+}
+
+/**
+ * Verify an HMAC-signed request and burn its nonce. The raw body must be the
+ * exact bytes the client signed.
+ */
+export async function verifySignedRequest(
+  headers: Headers,
+  method: string,
+  path: string,
+  body: string
+): Promise<SignedRequestResult> {
+  const clientId = headers.get(CLIENT_AUTH_HEADERS.clientId)
+  const timestamp = headers.get(CLIENT_AUTH_HEADERS.timestamp)
+  const nonce = headers.get(CLIENT_AUTH_HEADERS.nonce)
+  const signature = headers.get(CLIENT_AUTH_HEADERS.signature)
+
+  if (!clientId || !timestamp || !nonce || !signature) {
+    return { success: false, error: 'Missing request signature' }
+  }
+
+  if (!/^[A-Za-z0-9_-]{16,64}$/.test(nonce)) {
+    return { success: false, error: 'Invalid nonce' }
+  }
+
+  const settings = await getClientApiSettings()
+  const skew = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp))
+  if (!Number.isFinite(skew) || skew > settings.timestampToleranceSeconds) {
+    return { success: false, error: 'Request timestamp outside the allowed window' }
+  }
+
+  const credential = await prisma.productClientCredential.findUnique({
+    where: { clientId },
+    select: { id: true, productId: true, clientId: true, revokedAt: true }
+  })
+
+  if (!credential || credential.revokedAt) {
+    return { success: false, error: 'Unknown client' }
+  }
+
+  const expected = hmac(getClientSecret(clientId), getRequestSigningPayload(method, path, timestamp, nonce, body))
+  if (!safeEqual(expected, signature.toLowerCase())) {
+    return { success: false, error: 'Invalid request signature' }
+  }
+
+  // The unique index makes a replayed nonce fail even under concurrent requests
+  try {
+    await prisma.clientRequestNonce.create({
+      data: { credentialId: credential.id, nonce }
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'Request already processed' }
+    }
+    throw error
+  }
+
+  await prisma.productClientCredential.update({
+    where: { id: credential.id },
+    data: { lastUsedAt: new Date() }
+  })
+
+  return {
+    success: true,
+    credential: {
+      id: credential.id,
+      productId: credential.productId,
+      clientId: credential.clientId
+    },
+    nonce
+  }
+}
+
+/**
+ * Verify the signature of a license API request. Unsigned requests are let
+ * through as null while signing isn't enforced; a signature that is sent is
+ * always checked.
+ */
+export async function authenticateClientRequest(
+  headers: Headers,
+  method: string,
+  path: string,
+  body: string,
+  settings: ClientApiSettings
+): Promise<SignedRequestResult | null> {
+  if (!settings.requireSignedRequests && !headers.has(CLIENT_AUTH_HEADERS.signature)) {
+    return null
+  }
+
+  return verifySignedRequest(headers, method, path, body)
+}
+
+/**
+ * Response headers for a license API request: a signature for signed
+ * requests, a deprecation notice for unsigned ones
+ */
+export function getClientResponseHeaders(auth: SignedRequestResult | null, body: string): Record<string, string> {
+  if (auth?.success) {
+    return getResponseSignatureHeaders(auth.credential.clientId, auth.nonce, body)
+  }
+
+  return {
+    Deprecation: 'true',
+    Warning: '299 - "Unsigned license API requests are deprecated. Sign requests with a product client credential."'
+  }
+}
+
+/**
+ * Headers signing a response body for the request's nonce, so a client can
+ * reject answers that weren't produced by the server for its own request
+ */
+export function getResponseSignatureHeaders(clientId: string, nonce: string, body: string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+
+  return {
+    'X-Response-Timestamp': timestamp,
+    'X-Response-Signature': hmac(getClientSecret(clientId), [timestamp, nonce, sha256(body)].join('\n'))
+  }
+}
+
+/**
+ * Remove nonces old enough that their requests would be rejected by timestamp anyway
+ */
+export async function cleanupRequestNonces(): Promise<number> {
+  const settings = await getClientApiSettings()
+  const result = await prisma.clientRequestNonce.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - settings.timestampToleranceSeconds * 2 * 1000) }
+    }
+  })
+
+  return result.count
+}
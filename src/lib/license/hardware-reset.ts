@@ -0,0 +1,114 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { getSetting } from '@/lib/db/settings'
+import { licenseManager, type LicenseEventActor } from './license-manager'
+
+export interface HardwareResetSettings {
+  cooldownDays: number             // Days a customer must wait between self-service resets
+  monthlyLimit: number             // Self-service resets per rolling 30 days, 0 for no limit
+  requireReauthentication: boolean // Confirm with the account password, or a 2FA code when enabled
+}
+
+export interface HardwareResetAvailability {
+  allowed: boolean
+  error?: string
+  nextResetAt: Date | null
+  resetsThisMonth: number
+  monthlyLimit: number
+}
+
+export const DEFAULT_HARDWARE_RESET_SETTINGS: HardwareResetSettings = {
+  cooldownDays: 7,
+  monthlyLimit: 2,
+  requireReauthentication: true
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function getHardwareResetSettings(): Promise<HardwareResetSettings> {
+  return getSetting('hardwareResetSettings', DEFAULT_HARDWARE_RESET_SETTINGS)
+}
+
+/**
+ * Whether the owner may reset a license's hardware binding now. Only resets
+ * the customer made count, resets done by support don't use up the allowance.
+ */
+export async function getHardwareResetAvailability(
+  licenseId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<HardwareResetAvailability> {
+  const settings = await getHardwareResetSettings()
+  const now = Date.now()
+
+  const recentResets = await client.licenseEvent.findMany({
+    where: {
+      licenseId,
+      type: 'HARDWARE_RESET',
+      actorType: 'USER',
+      createdAt: { gte: new Date(now - 30 * DAY_MS) }
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  const availability = {
+    resetsThisMonth: recentResets.length,
+    monthlyLimit: settings.monthlyLimit
+  }
+
+  // Cooldown since the last reset
+  const lastReset = recentResets[0]?.createdAt
+  const cooldownEndsAt = settings.cooldownDays > 0 && lastReset
+    ? new Date(lastReset.getTime() + settings.cooldownDays * DAY_MS)
+    : null
+
+  // The oldest reset counting towards the cap drops out of the window first
+  const limitEndsAt = settings.monthlyLimit > 0 && recentResets.length >= settings.monthlyLimit
+    ? new Date(recentResets[settings.monthlyLimit - 1].createdAt.getTime() + 30 * DAY_MS)
+    : null
+
+  if (limitEndsAt && (!cooldownEndsAt || limitEndsAt > cooldownEndsAt)) {
+    return {
+      ...availability,
+      allowed: false,
+      error: `You can reset hardware ${settings.monthlyLimit} time${settings.monthlyLimit !== 1 ? 's' : ''} per 30 days`,
+      nextResetAt: limitEndsAt
+    }
+  }
+
+  if (cooldownEndsAt && cooldownEndsAt.getTime() > now) {
+    return {
+      ...availability,
+      allowed: false,
+      error: `Hardware can be reset once every ${settings.cooldownDays} day${settings.cooldownDays !== 1 ? 's' : ''}`,
+      nextResetAt: cooldownEndsAt
+    }
+  }
+
+  return {
+    ...availability,
+    allowed: true,
+    nextResetAt: null
+  }
+}
+
+/**
+ * Reset the hardware binding on the owner's behalf if the allowance permits.
+ * The check is repeated with the license locked, so concurrent requests can't
+ * both pass it.
+ */
+export async function resetHardwareWithinAllowance(
+  licenseId: string,
+  actor: LicenseEventActor
+): Promise<HardwareResetAvailability> {
+  return prisma.$transaction(async (tx) => {
+    await licenseManager.lockLicense(tx, licenseId)
+
+    const availability = await getHardwareResetAvailability(licenseId, tx)
+    if (availability.allowed) {
+      await licenseManager.resetHardwareBinding(licenseId, actor, tx)
+    }
+
+    return availability
+  })
+}
@@ -0,0 +1,278 @@
+import type { License, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { notificationService } from '@/lib/notifications/notification-service'
+import { parseLegacyLicenseKey } from './license-key'
+
+export interface KeyImportResult {
+  imported: number
+  duplicates: number
+  invalid: number
+}
+
+export interface KeyPoolStock {
+  productId: string
+  productName: string
+  available: number
+  allocated: number
+  lowStockThreshold: number
+  lowStock: boolean
+}
+
+export interface OutOfStockItem {
+  productId: string
+  productName: string
+  available: number
+  requested: number
+}
+
+// Attempts to claim a key before giving up when other orders keep taking the same one
+const MAX_ALLOCATION_ATTEMPTS = 5
+
+export class KeyPoolManager {
+  /**
+   * Read license keys from CSV content. The first column holds the key,
+   * an optional header row and blank lines are skipped.
+   */
+  parseCsv(content: string): string[] {
+    return content
+      .split(/\r?\n/)
+      .map(line => line.split(/[,;\t]/)[0].trim().replace(/^"(.*)"$/, '$1').trim())
+      .filter((value, index) => value && !(index === 0 && /key/i.test(value) && !/\d/.test(value)))
+  }
+
+  /**
+   * Add keys to a product's pool. Keys already pooled or issued are skipped.
+   * Imported keys come from elsewhere, so they're never held to the v2 format.
+   */
+  async importKeys(productId: string, keys: string[], importedById?: string): Promise<KeyImportResult> {
+    const parsed = keys.map(key => parseLegacyLicenseKey(key))
+    const valid = Array.from(new Set(parsed.flatMap(key => key ? [key.key] : [])))
+    const invalid = parsed.filter(key => !key).length
+
+    // Keys that already belong to an issued license would fail on allocation
+    const issued = await prisma.license.findMany({
+      where: { licenseKey: { in: valid } },
+      select: { licenseKey: true }
+    })
+    const issuedKeys = new Set(issued.map(license => license.licenseKey))
+
+    const created = await prisma.pooledLicenseKey.createMany({
+      data: valid
+        .filter(key => !issuedKeys.has(key))
+        .map(licenseKey => ({ productId, licenseKey, importedById })),
+      skipDuplicates: true
+    })
+
+    if (created.count > 0) {
+      // Restocked pools alert again the next time they run low
+      await this.checkLowStock(productId)
+    }
+
+    return {
+      imported: created.count,
+      duplicates: keys.length - invalid - created.count,
+      invalid
+    }
+  }
+
+  /**
+   * Remaining stock for products that issue keys from a pool
+   */
+  async getStock(productIds?: string[]): Promise<KeyPoolStock[]> {
+    const products = await prisma.product.findMany({
+      where: {
+        licenseKeySource: 'POOL',
+        ...(productIds ? { id: { in: productIds } } : {})
+      },
+      select: { id: true, name: true, lowStockThreshold: true },
+      orderBy: { name: 'asc' }
+    })
+
+    if (products.length === 0) {
+      return []
+    }
+
+    const [available, allocated] = await Promise.all([
+      prisma.pooledLicenseKey.groupBy({
+        by: ['productId'],
+        where: { productId: { in: products.map(product => product.id) }, allocatedAt: null },
+        _count: { _all: true }
+      }),
+      prisma.pooledLicenseKey.groupBy({
+        by: ['productId'],
+        where: { productId: { in: products.map(product => product.id) }, allocatedAt: { not: null } },
+        _count: { _all: true }
+      })
+    ])
+
+    return products.map(product => {
+      const availableCount = available.find(row => row.productId === product.id)?._count._all || 0
+
+      return {
+        productId: product.id,
+        productName: product.name,
+        available: availableCount,
+        allocated: allocated.find(row => row.productId === product.id)?._count._all || 0,
+        lowStockThreshold: product.lowStockThreshold,
+        lowStock: availableCount <= product.lowStockThreshold
+      }
+    })
+  }
+
+  /**
+   * Items whose pooled products don't have enough keys left to fulfil the requested quantity
+   */
+  async findOutOfStock(items: Array<{ productId: string, quantity: number }>): Promise<OutOfStockItem[]> {
+    const requested = new Map<string, number>()
+    for (const item of items) {
+      requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity)
+    }
+
+    const stock = await this.getStock(Array.from(requested.keys()))
+
+    return stock
+      .filter(entry => entry.available < (requested.get(entry.productId) || 0))
+      .map(entry => ({
+        productId: entry.productId,
+        productName: entry.productName,
+        available: entry.available,
+        requested: requested.get(entry.productId) || 0
+      }))
+  }
+
+  /**
+   * Create a license with the next key from the product's pool. The key is
+   * claimed and the license created in one transaction, so a key is never
+   * handed out twice. Returns null when the pool is empty.
+   *
+   * Pass a transaction to take part in it; the low-stock check is then left
+   * to the caller, after commit.
+   */
+  async createLicenseFromPool(
+    data: Omit<Prisma.LicenseUncheckedCreateInput, 'licenseKey'>,
+    tx?: Prisma.TransactionClient
+  ): Promise<License | null> {
+    const allocate = async (tx: Prisma.TransactionClient) => {
+      const pooledKey = await this.allocateKey(tx, data.productId)
+      if (!pooledKey) {
+        return null
+      }
+
+      const created = await tx.license.create({
+        data: {
+          ...data,
+          licenseKey: pooledKey.licenseKey
+        }
+      })
+
+      await tx.pooledLicenseKey.update({
+        where: { id: pooledKey.id },
+        data: { licenseId: created.id }
+      })
+
+      return created
+    }
+
+    if (tx) {
+      return allocate(tx)
+    }
+
+    const license = await prisma.$transaction(allocate)
+    await this.checkLowStock(data.productId)
+
+    return license
+  }
+
+  /**
+   * Alert admins once when a product's pool drops to its low-stock threshold,
+   * and again when it runs out. Restocking above the threshold re-arms the alert.
+   */
+  async checkLowStock(productId: string): Promise<void> {
+    try {
+      const [stock] = await this.getStock([productId])
+      if (!stock) {
+        return
+      }
+
+      const { lowStockAlertLevel } = await prisma.product.findUniqueOrThrow({
+        where: { id: productId },
+        select: { lowStockAlertLevel: true }
+      })
+
+      if (!stock.lowStock) {
+        if (lowStockAlertLevel !== null) {
+          await prisma.product.update({
+            where: { id: productId },
+            data: { lowStockAlertLevel: null }
+          })
+        }
+        return
+      }
+
+      const alreadyAlerted = lowStockAlertLevel !== null && (stock.available > 0 || lowStockAlertLevel === 0)
+      if (alreadyAlerted) {
+        return
+      }
+
+      // Conditional on the value read, so concurrent orders send the alert once
+      const { count } = await prisma.product.updateMany({
+        where: { id: productId, lowStockAlertLevel },
+        data: { lowStockAlertLevel: stock.available }
+      })
+
+      if (count === 0) {
+        return
+      }
+
+      await notificationService.notifyAdmins(
+        stock.available === 0 ? 'License Key Pool Empty' : 'License Key Pool Running Low',
+        stock.available === 0
+          ? `${stock.productName} has no license keys left. New orders are blocked until more keys are imported.`
+          : `${stock.productName} has ${stock.available} license keys left. Import more keys to keep it on sale.`,
+        { productId, available: stock.available }
+      )
+    } catch (error) {
+      console.error('Low stock check error:', error)
+    }
+  }
+
+  /**
+   * Claim the oldest unallocated key. The conditional update only succeeds for
+   * one transaction, others move on to the next key.
+   */
+  private async allocateKey(tx: Prisma.TransactionClient, productId: string) {
+    const taken: string[] = []
+
+    for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+      const candidate = await tx.pooledLicenseKey.findFirst({
+        where: {
+          productId,
+          allocatedAt: null,
+          id: { notIn: taken }
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, licenseKey: true }
+      })
+
+      if (!candidate) {
+        return null
+      }
+
+      const claimed = await tx.pooledLicenseKey.updateMany({
+        where: { id: candidate.id, allocatedAt: null },
+        data: { allocatedAt: new Date() }
+      })
+
+      if (claimed.count === 1) {
+        return candidate
+      }
+
+      taken.push(candidate.id)
+    }
+
+    return null
+  }
+}
+
+// Create singleton instance
+export const keyPoolManager = new KeyPoolManager()
@@ -0,0 +1,290 @@
+import crypto from 'crypto'
+import { prisma } from '@/lib/db/prisma'
+import { licenseManager, readIntSetting, type HardwareInfo } from './license-manager'
+
+export interface LeaseResult {
+  success: boolean
+  lease?: {
+    leaseToken: string
+    expiresAt: Date
+    heartbeatIntervalSeconds: number
+  }
+  activeSessions?: number
+  maxSessions?: number
+  error?: string
+}
+
+export interface ActiveSessionStats {
+  totalSessions: number
+  totalUsers: number
+  byProduct: Array<{
+    productId: string
+    productName: string
+    sessions: number
+    users: number
+  }>
+}
+
+export class LeaseManager {
+  private readonly ttlSeconds: number
+
+  constructor(ttlSeconds: number) {
+    this.ttlSeconds = ttlSeconds
+  }
+
+  /**
+   * Check out a lease, enforcing the product's concurrent session limit
+   */
+  async checkoutLease(
+    licenseKey: string,
+    client: {
+      productId?: string
+      hardwareInfo?: HardwareInfo
+      ipAddress?: string
+      userAgent?: string
+      requireActivation?: boolean
+    } = {}
+  ): Promise<LeaseResult> {
+    try {
+      const validation = await licenseManager.validateLicense(
+        licenseKey,
+        client.productId,
+        client.hardwareInfo,
+        { ipAddress: client.ipAddress, requireActivation: client.requireActivation }
+      )
+
+      if (!validation.isValid || !validation.license) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const license = validation.license
+      const now = new Date()
+
+      return await prisma.$transaction(async (tx) => {
+        // Concurrent checkouts for the license wait here, so the count below stays accurate
+        await licenseManager.lockLicense(tx, license.id)
+
+        // Drop stale leases so they don't hold a slot
+        await tx.licenseLease.deleteMany({
+          where: {
+            licenseId: license.id,
+            expiresAt: { lt: now }
+          }
+        })
+
+        const [product, activeSessions] = await Promise.all([
+          tx.product.findUniqueOrThrow({
+            where: { id: license.productId },
+            select: { maxSessions: true }
+          }),
+          tx.licenseLease.count({
+            where: { licenseId: license.id }
+          })
+        ])
+
+        if (activeSessions >= product.maxSessions) {
+          return {
+            success: false,
+            activeSessions,
+            maxSessions: product.maxSessions,
+            error: `Concurrent session limit reached (${product.maxSessions})`
+          }
+        }
+
+        const lease = await tx.licenseLease.create({
+          data: {
+            licenseId: license.id,
+            productId: license.productId,
+            userId: license.userId,
+            leaseToken: crypto.randomBytes(32).toString('hex'),
+            ipAddress: client.ipAddress,
+            userAgent: client.userAgent,
+            expiresAt: this.nextExpiry(now)
+          }
+        })
+
+        return {
+          success: true,
+          lease: {
+            leaseToken: lease.leaseToken,
+            expiresAt: lease.expiresAt,
+            heartbeatIntervalSeconds: this.heartbeatInterval()
+          },
+          activeSessions: activeSessions + 1,
+          maxSessions: product.maxSessions
+        }
+      })
+    } catch (error) {
+      console.error('Lease checkout error:', error)
+      return {
+        success: false,
+        error: 'Lease checkout failed'
+      }
+    }
+  }
+
+  /**
+   * Renew a lease. Fails once the lease lapsed or the license is no longer usable.
+   */
+  async heartbeat(leaseToken: string, ipAddress?: string): Promise<LeaseResult> {
+    try {
+      const now = new Date()
+      const lease = await prisma.licenseLease.findUnique({
+        where: { leaseToken },
+        include: {
+          license: {
+            select: {
+              status: true,
+              expiresAt: true
+            }
+          }
+        }
+      })
+
+      if (!lease || lease.expiresAt < now) {
+        if (lease) {
+          await prisma.licenseLease.delete({ where: { id: lease.id } })
+        }
+
+        return {
+          success: false,
+          error: 'Lease not found or expired'
+        }
+      }
+
+      const licenseExpired = lease.license.expiresAt !== null && lease.license.expiresAt < now
+      if (lease.license.status !== 'ACTIVE' || licenseExpired) {
+        await prisma.licenseLease.delete({ where: { id: lease.id } })
+
+        return {
+          success: false,
+          error: licenseExpired ? 'License has expired' : `License is ${lease.license.status.toLowerCase()}`
+        }
+      }
+
+      const renewed = await prisma.licenseLease.update({
+        where: { id: lease.id },
+        data: {
+          lastHeartbeatAt: now,
+          expiresAt: this.nextExpiry(now),
+          ipAddress: ipAddress ?? lease.ipAddress
+        }
+      })
+
+      return {
+        success: true,
+        lease: {
+          leaseToken: renewed.leaseToken,
+          expiresAt: renewed.expiresAt,
+          heartbeatIntervalSeconds: this.heartbeatInterval()
+        }
+      }
+    } catch (error) {
+      console.error('Lease heartbeat error:', error)
+      return {
+        success: false,
+        error: 'Lease heartbeat failed'
+      }
+    }
+  }
+
+  /**
+   * Release a lease so its slot is available immediately
+   */
+  async releaseLease(leaseToken: string): Promise<boolean> {
+    try {
+      const result = await prisma.licenseLease.deleteMany({
+        where: { leaseToken }
+      })
+
+      return result.count > 0
+    } catch (error) {
+      console.error('Lease release error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Currently active sessions and users, per product
+   */
+  async getActiveSessionStats(): Promise<ActiveSessionStats> {
+    try {
+      const where = { expiresAt: { gte: new Date() } }
+
+      const [sessionsByProduct, usersByProduct, totalUsers] = await Promise.all([
+        prisma.licenseLease.groupBy({
+          by: ['productId'],
+          where,
+          _count: { _all: true }
+        }),
+        prisma.licenseLease.groupBy({
+          by: ['productId', 'userId'],
+          where
+        }),
+        prisma.licenseLease.findMany({
+          where,
+          distinct: ['userId'],
+          select: { userId: true }
+        })
+      ])
+
+      const products = await prisma.product.findMany({
+        where: { id: { in: sessionsByProduct.map(item => item.productId) } },
+        select: { id: true, name: true }
+      })
+
+      const byProduct = sessionsByProduct
+        .map(item => ({
+          productId: item.productId,
+          productName: products.find(product => product.id === item.productId)?.name || 'Unknown product',
+          sessions: item._count._all,
+          users: usersByProduct.filter(entry => entry.productId === item.productId).length
+        }))
+        .sort((a, b) => b.sessions - a.sessions)
+
+      return {
+        totalSessions: byProduct.reduce((sum, item) => sum + item.sessions, 0),
+        totalUsers: totalUsers.length,
+        byProduct
+      }
+    } catch (error) {
+      console.error('Active session stats error:', error)
+      return { totalSessions: 0, totalUsers: 0, byProduct: [] }
+    }
+  }
+
+  /**
+   * Delete leases that missed their heartbeat
+   */
+  async cleanupExpiredLeases(): Promise<number> {
+    try {
+      const result = await prisma.licenseLease.deleteMany({
+        where: {
+          expiresAt: { lt: new Date() }
+        }
+      })
+
+      console.log(`Removed ${result.count} expired license leases`)
+      return result.count
+    } catch (error) {
+      console.error('Cleanup expired leases error:', error)
+      return 0
+    }
+  }
+
+  private nextExpiry(from: Date): Date {
+    return new Date(from.getTime() + this.ttlSeconds * 1000)
+  }
+
+  // Clients should renew well before the lease lapses
+  private heartbeatInterval(): number {
+    return Math.max(10, Math.floor(this.ttlSeconds / 3))
+  }
+}
+
+// Create singleton instance; leases shorter than 30s would lapse between heartbeats
+const leaseTtlSeconds = readIntSetting(process.env.LICENSE_LEASE_TTL_SECONDS, 300, 30)
+export const leaseManager = new LeaseManager(leaseTtlSeconds)
@@ -0,0 +1,128 @@
+import crypto from 'crypto'
+
+export type ParsedLicenseKey =
+  | {
+      format: 'v2'
+      key: string
+      productPrefix: string
+    }
+  | {
+      format: 'legacy'
+      key: string
+    }
+
+// Digits and capitals without the easily confused 0/O, 1/I/L
+const KEY_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+
+const PREFIX_LENGTH = 4
+const GROUP_LENGTH = 5
+const GROUP_COUNT = 3
+
+// PPPP-XXXXX-XXXXX-XXXXC: product prefix, random body, check character last
+const KEY_PATTERN = new RegExp(
+  `^([${KEY_ALPHABET}]{${PREFIX_LENGTH}})((?:-[${KEY_ALPHABET}]{${GROUP_LENGTH}}){${GROUP_COUNT}})$`
+)
+
+// Anything laid out like a v2 key is held to the v2 rules, so typos aren't taken for legacy keys
+const V2_SHAPE_PATTERN = new RegExp(
+  `^[A-Z0-9]{${PREFIX_LENGTH}}(?:-[A-Z0-9]{${GROUP_LENGTH}}){${GROUP_COUNT}}$`
+)
+
+// Keys issued before the checksummed format, including imported pool keys
+const LEGACY_KEY_PATTERN = /^[A-Z0-9][A-Z0-9-]{5,63}$/
+
+/**
+ * Four character prefix identifying the product a key was issued for
+ */
+export function getProductKeyPrefix(productId: string): string {
+  const hash = crypto.createHash('sha256').update(productId).digest()
+  let prefix = ''
+
+  for (let i = 0; i < PREFIX_LENGTH; i++) {
+    prefix += KEY_ALPHABET[hash[i] % KEY_ALPHABET.length]
+  }
+
+  return prefix
+}
+
+/**
+ * Generate a license key for a product in the format PPPP-XXXXX-XXXXX-XXXXC
+ */
+export function generateLicenseKey(productId: string): string {
+  const prefix = getProductKeyPrefix(productId)
+  const bodyLength = GROUP_LENGTH * GROUP_COUNT - 1
+  let body = ''
+
+  for (let i = 0; i < bodyLength; i++) {
+    body += KEY_ALPHABET[crypto.randomInt(KEY_ALPHABET.length)]
+  }
+
+  body += getCheckCharacter(prefix + body)
+
+  const groups = []
+  for (let i = 0; i < body.length; i += GROUP_LENGTH) {
+    groups.push(body.substring(i, i + GROUP_LENGTH))
+  }
+
+  return [prefix, ...groups].join('-')
+}
+
+/**
+ * Normalize and check a license key without touching the database. Returns
+ * null for malformed keys and keys whose check character doesn't match.
+ */
+export function parseLicenseKey(input: string): ParsedLicenseKey | null {
+  const key = normalizeLicenseKey(input)
+
+  if (V2_SHAPE_PATTERN.test(key)) {
+    const match = KEY_PATTERN.exec(key)
+    if (!match) {
+      return null
+    }
+
+    const [, prefix, groups] = match
+    const body = groups.replace(/-/g, '')
+
+    if (getCheckCharacter(prefix + body.slice(0, -1)) !== body.slice(-1)) {
+      return null
+    }
+
+    return { format: 'v2', key, productPrefix: prefix }
+  }
+
+  return parseLegacyLicenseKey(key)
+}
+
+/**
+ * Normalize a key as a legacy key, skipping the v2 checks. For keys made
+ * elsewhere, such as pool imports, that may only happen to look like v2 keys.
+ */
+export function parseLegacyLicenseKey(input: string): ParsedLicenseKey | null {
+  const key = normalizeLicenseKey(input)
+  return LEGACY_KEY_PATTERN.test(key) ? { format: 'legacy', key } : null
+}
+
+/**
+ * Whether a parsed key could belong to the product. Legacy keys carry no prefix.
+ */
+export function isKeyForProduct(parsed: ParsedLicenseKey, productId: string): boolean {
+  return parsed.format === 'legacy' || parsed.productPrefix === getProductKeyPrefix(productId)
+}
+
+function normalizeLicenseKey(input: string): string {
+  return input.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Position-weighted sum modulo the (prime) alphabet size, so any single
+ * mistyped character or swapped pair of neighbours changes the check character
+ */
+function getCheckCharacter(input: string): string {
+  let sum = 0
+
+  for (let i = 0; i < input.length; i++) {
+    sum += (i + 1) * KEY_ALPHABET.indexOf(input[i])
+  }
+
+  return KEY_ALPHABET[sum % KEY_ALPHABET.length]
+}
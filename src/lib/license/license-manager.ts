@@ -1,5 +1,13 @@
 import crypto from 'crypto'
+import type { License, LicenseEventActorType, LicenseEventType, LicenseKeySource, Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db/prisma'
+import { getRenewalStartDate } from './renewal'
+import { LicenseTokenSigner, loadLicenseTokenKeys, type LicenseTokenClaims } from './license-token'
+import { getTrialEmailPattern } from './trial'
+import { keyPoolManager } from './key-pool'
+import { generateLicenseKey, parseLicenseKey, parseLegacyLicenseKey, isKeyForProduct, type ParsedLicenseKey } from './license-key'
+import { buildRevocationList } from './revocation-list'
+import { calculatePlanExpiry } from '@/lib/utils'
 
 export interface LicenseValidationResult {
   isValid: boolean
@@ -10,6 +18,7 @@ export interface LicenseValidationResult {
     userId: string
     productId: string
     expiresAt: Date | null
+    updatesUntil: Date | null
     product: {
       name: string
       version: string
@@ -19,6 +28,42 @@ export interface LicenseValidationResult {
       email: string
     }
   }
+  token?: {
+    value: string
+    keyId: string
+    issuedAt: Date
+    expiresAt: Date
+    gracePeriodSeconds: number
+  }
+  error?: string
+}
+
+export interface ValidateLicenseOptions {
+  issueToken?: boolean
+  ipAddress?: string
+  requireActivation?: boolean // Only pass for a device the license is activated on, even before its first activation
+}
+
+export interface LicenseActivationResult {
+  success: boolean
+  activation?: {
+    id: string
+    deviceName: string | null
+    createdAt: Date
+    lastSeenAt: Date
+  }
+  activationsUsed?: number
+  maxActivations?: number
+  error?: string
+}
+
+export interface TrialClaimResult {
+  success: boolean
+  license?: {
+    id: string
+    licenseKey: string
+    expiresAt: Date | null
+  }
   error?: string
 }
 
@@ -30,27 +75,49 @@ export interface HardwareInfo {
   systemUuid?: string
 }
 
+export type HardwareComponentHashes = Partial<Record<keyof HardwareInfo, string>>
+
+const HARDWARE_COMPONENTS: Array<keyof HardwareInfo> = [
+  'cpuId',
+  'motherboardId',
+  'diskId',
+  'macAddress',
+  'systemUuid'
+]
+
+export interface LicenseEventActor {
+  type: LicenseEventActorType
+  id?: string
+  ipAddress?: string
+}
+
+const SYSTEM_ACTOR: LicenseEventActor = { type: 'SYSTEM' }
+
+interface StoredActivation {
+  id: string
+  hardwareFingerprint: string
+  componentHashes: Prisma.JsonValue | null
+}
+
+interface ActivationMatch<T extends StoredActivation> {
+  activation: T
+  matchedComponents: number
+  changedComponents: Array<keyof HardwareInfo>
+}
+
 export class LicenseManager {
-  private readonly encryptionKey: string
+  private signer: LicenseTokenSigner | null = null
 
-  constructor(encryptionKey: string) {
-    this.encryptionKey = encryptionKey
-  }
+  // Created on first use so a build without token keys configured still succeeds
+  private get tokenSigner(): LicenseTokenSigner {
+    if (!this.signer) {
+      this.signer = new LicenseTokenSigner(loadLicenseTokenKeys(LICENSE_TOKEN_CONFIG.keyIds), {
+        ttlSeconds: LICENSE_TOKEN_CONFIG.ttlHours * 60 * 60,
+        graceSeconds: LICENSE_TOKEN_CONFIG.graceHours * 60 * 60
+      })
+    }
 
-  /**
-   * Generate a new license key
-   */
-  generateLicenseKey(productId: string, userId: string): string {
-    const timestamp = Date.now().toString()
-    const random = crypto.randomBytes(8).toString('hex')
-    const data = `${productId}-${userId}-${timestamp}-${random}`
-    
-    // Create hash
-    const hash = crypto.createHash('sha256').update(data).digest('hex')
-    
-    // Format as license key (XXXX-XXXX-XXXX-XXXX)
-    const key = hash.substring(0, 16).toUpperCase()
-    return `${key.substring(0, 4)}-${key.substring(4, 8)}-${key.substring(8, 12)}-${key.substring(12, 16)}`
+    return this.signer
   }
 
   /**
@@ -59,12 +126,29 @@ export class LicenseManager {
   async validateLicense(
     licenseKey: string,
     productId?: string,
-    hardwareInfo?: HardwareInfo
+    hardwareInfo?: HardwareInfo,
+    options: ValidateLicenseOptions = {}
   ): Promise<LicenseValidationResult> {
     try {
+      // Reject typos and keys for other products before querying licenses
+      const parsedKey = await this.parseClientKey(licenseKey, productId)
+      if (!parsedKey) {
+        return {
+          isValid: false,
+          error: 'Invalid license key format'
+        }
+      }
+
+      if (productId && !isKeyForProduct(parsedKey, productId)) {
+        return {
+          isValid: false,
+          error: 'License key is not valid for this product'
+        }
+      }
+
       // Find license in database
       const license = await prisma.license.findUnique({
-        where: { licenseKey },
+        where: { licenseKey: parsedKey.key },
         include: {
           product: {
             select: {
@@ -80,6 +164,14 @@ export class LicenseManager {
               name: true,
               email: true
             }
+          },
+          activations: {
+            select: {
+              id: true,
+              hardwareFingerprint: true,
+              componentHashes: true,
+              deviceName: true
+            }
           }
         }
       })
@@ -91,57 +183,95 @@ export class LicenseManager {
         }
       }
 
+      const client: LicenseEventActor = { type: 'CLIENT', ipAddress: options.ipAddress }
+      const rejectValidation = async (error: string): Promise<LicenseValidationResult> => {
+        await this.recordEvent(license.id, 'VALIDATION_FAILED', client, { error, productId })
+        return { isValid: false, error }
+      }
+
       // Check if license is active
       if (license.status !== 'ACTIVE') {
-        return {
-          isValid: false,
-          error: `License is ${license.status.toLowerCase()}`
-        }
+        return rejectValidation(`License is ${license.status.toLowerCase()}`)
       }
 
       // Check if product is active
       if (!license.product.isActive) {
-        return {
-          isValid: false,
-          error: 'Product is no longer available'
-        }
+        return rejectValidation('Product is no longer available')
       }
 
       // Check product match if specified
       if (productId && license.productId !== productId) {
-        return {
-          isValid: false,
-          error: 'License is not valid for this product'
-        }
+        return rejectValidation('License is not valid for this product')
       }
 
       // Check expiry date
       if (license.expiresAt && license.expiresAt < new Date()) {
         // Auto-expire the license
-        await prisma.license.update({
-          where: { id: license.id },
-          data: { status: 'EXPIRED' }
-        })
+        await this.expireLicense(license.id)
 
-        return {
-          isValid: false,
-          error: 'License has expired'
+        return rejectValidation('License has expired')
+      }
+
+      // Client checks must come from a device holding one of the license's activation slots.
+      // Without requireActivation, licenses never activated (e.g. issued before activations
+      // were tracked) still validate.
+      if (options.requireActivation && !hardwareInfo) {
+        return rejectValidation('Hardware information is required')
+      }
+
+      if (hardwareInfo && (options.requireActivation || license.activations.length > 0)) {
+        const match = this.matchActivation(license.activations, hardwareInfo)
+
+        if (!match) {
+          return rejectValidation('License is not activated on this device')
+        }
+
+        if (match.changedComponents.length > 0) {
+          // Hardware drifted within tolerance: re-bind the slot to the new fingerprint
+          await prisma.$transaction([
+            prisma.licenseActivation.update({
+              where: { id: match.activation.id },
+              data: {
+                ...this.buildActivationBinding(hardwareInfo),
+                lastSeenAt: new Date(),
+                ipAddress: options.ipAddress
+              }
+            }),
+            this.logHardwareDrift(license, match, options.ipAddress)
+          ])
+        } else {
+          await prisma.licenseActivation.update({
+            where: { id: match.activation.id },
+            data: {
+              lastSeenAt: new Date(),
+              ipAddress: options.ipAddress
+            }
+          })
         }
       }
 
-      // Check hardware binding if enabled
-      if (license.hardwareFingerprint && hardwareInfo) {
-        const currentFingerprint = this.generateHardwareFingerprint(hardwareInfo)
-        if (license.hardwareFingerprint !== currentFingerprint) {
-          return {
-            isValid: false,
-            error: 'License is bound to different hardware'
-          }
+      let token: LicenseValidationResult['token']
+      if (options.issueToken) {
+        const signed = this.tokenSigner.sign({
+          lid: license.id,
+          pid: license.productId,
+          sub: license.userId,
+          hwf: hardwareInfo ? this.generateHardwareFingerprint(hardwareInfo) : null,
+          lexp: license.expiresAt ? Math.floor(license.expiresAt.getTime() / 1000) : null
+        })
+
+        token = {
+          value: signed.token,
+          keyId: this.tokenSigner.getActiveKeyId(),
+          issuedAt: new Date(signed.claims.iat * 1000),
+          expiresAt: new Date(signed.claims.exp * 1000),
+          gracePeriodSeconds: signed.claims.grace
         }
       }
 
       return {
         isValid: true,
+        token,
         license: {
           id: license.id,
           licenseKey: license.licenseKey,
@@ -149,6 +279,7 @@ export class LicenseManager {
           userId: license.userId,
           productId: license.productId,
           expiresAt: license.expiresAt,
+          updatesUntil: license.updatesUntil,
           product: {
             name: license.product.name,
             version: license.product.version || '1.0.0'
@@ -170,30 +301,325 @@ export class LicenseManager {
   }
 
   /**
-   * Bind license to hardware
+   * Verify an offline license token issued by validateLicense
+   */
+  verifyLicenseToken(token: string): LicenseTokenClaims | null {
+    return this.tokenSigner.verify(token)
+  }
+
+  /**
+   * Public keys clients use to verify offline license tokens
+   */
+  getLicenseTokenPublicKeys() {
+    return this.tokenSigner.getPublicKeys()
+  }
+
+  /**
+   * Revocation list signed with the license token key, full or as a delta since a serial
+   */
+  async getSignedRevocationList(since: number | null, productId?: string) {
+    const list = await buildRevocationList(since, productId)
+
+    return {
+      list,
+      token: this.tokenSigner.signDocument('NHRL', list)
+    }
+  }
+
+  /**
+   * Activate license on a device, using one of the product's activation slots
+   */
+  async activateLicense(
+    licenseKey: string,
+    hardwareInfo: HardwareInfo,
+    device: {
+      productId?: string
+      deviceName?: string
+      ipAddress?: string
+    } = {}
+  ): Promise<LicenseActivationResult> {
+    try {
+      const validation = await this.validateLicense(licenseKey, device.productId)
+      if (!validation.isValid || !validation.license) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const licenseId = validation.license.id
+
+      return await prisma.$transaction(async (tx) => {
+        // Serialize activations of this license so two devices can't both take the last slot
+        await this.lockLicense(tx, licenseId)
+
+        const license = await tx.license.findUniqueOrThrow({
+          where: { id: licenseId },
+          select: {
+            id: true,
+            userId: true,
+            productId: true,
+            licenseKey: true,
+            isTrial: true,
+            trialClaim: { select: { id: true, hardwareFingerprint: true } },
+            product: { select: { maxActivations: true } },
+            activations: {
+              select: {
+                id: true,
+                hardwareFingerprint: true,
+                componentHashes: true,
+                deviceName: true
+              }
+            }
+          }
+        })
+
+        const maxActivations = license.product.maxActivations
+        const match = this.matchActivation(license.activations, hardwareInfo)
+        const existing = match?.activation
+
+        // Re-activating a known device doesn't consume another slot
+        if (!existing && license.activations.length >= maxActivations) {
+          return {
+            success: false,
+            activationsUsed: license.activations.length,
+            maxActivations,
+            error: `Activation limit reached (${maxActivations} device${maxActivations !== 1 ? 's' : ''})`
+          }
+        }
+
+        // A device may only ever run one trial of a product
+        if (license.isTrial && license.trialClaim && !existing) {
+          const hardwareFingerprint = this.generateHardwareFingerprint(hardwareInfo)
+          const usedTrial = await tx.trialClaim.findFirst({
+            where: {
+              productId: license.productId,
+              hardwareFingerprint,
+              id: { not: license.trialClaim.id }
+            },
+            select: { id: true }
+          })
+
+          if (usedTrial) {
+            return {
+              success: false,
+              error: 'A trial for this product has already been used on this device'
+            }
+          }
+
+          if (!license.trialClaim.hardwareFingerprint) {
+            await tx.trialClaim.update({
+              where: { id: license.trialClaim.id },
+              data: { hardwareFingerprint }
+            })
+          }
+        }
+
+        if (match && match.changedComponents.length > 0) {
+          await this.logHardwareDrift(license, match, device.ipAddress, tx)
+        }
+
+        const activation = existing
+          ? await tx.licenseActivation.update({
+              where: { id: existing.id },
+              data: {
+                ...(match.changedComponents.length > 0 ? this.buildActivationBinding(hardwareInfo) : {}),
+                deviceName: device.deviceName,
+                ipAddress: device.ipAddress,
+                lastSeenAt: new Date()
+              }
+            })
+          : await tx.licenseActivation.create({
+              data: {
+                licenseId,
+                ...this.buildActivationBinding(hardwareInfo),
+                deviceName: device.deviceName,
+                ipAddress: device.ipAddress
+              }
+            })
+
+        await this.recordEvent(
+          licenseId,
+          'ACTIVATED',
+          { type: 'CLIENT', ipAddress: device.ipAddress },
+          { activationId: activation.id, deviceName: device.deviceName ?? null, reactivated: !!existing },
+          tx
+        )
+
+        return {
+          success: true,
+          activation: {
+            id: activation.id,
+            deviceName: activation.deviceName,
+            createdAt: activation.createdAt,
+            lastSeenAt: activation.lastSeenAt
+          },
+          activationsUsed: existing ? license.activations.length : license.activations.length + 1,
+          maxActivations
+        }
+      })
+    } catch (error) {
+      console.error('License activation error:', error)
+      return {
+        success: false,
+        error: 'License activation failed'
+      }
+    }
+  }
+
+  /**
+   * Deactivate license on the device described by hardwareInfo, optionally
+   * only when the license belongs to productId
+   */
+  async deactivateLicense(
+    licenseKey: string,
+    hardwareInfo: HardwareInfo,
+    ipAddress?: string,
+    productId?: string
+  ): Promise<boolean> {
+    try {
+      const parsedKey = await this.parseClientKey(licenseKey, productId)
+      if (!parsedKey) return false
+
+      const license = await prisma.license.findUnique({
+        where: { licenseKey: parsedKey.key },
+        select: {
+          id: true,
+          productId: true,
+          activations: {
+            select: {
+              id: true,
+              hardwareFingerprint: true,
+              componentHashes: true
+            }
+          }
+        }
+      })
+
+      if (!license || (productId && license.productId !== productId)) return false
+
+      const match = this.matchActivation(license.activations, hardwareInfo)
+      if (!match) return false
+
+      await prisma.$transaction([
+        prisma.licenseActivation.delete({
+          where: { id: match.activation.id }
+        }),
+        this.recordEvent(license.id, 'DEACTIVATED', { type: 'CLIENT', ipAddress }, { activationId: match.activation.id })
+      ])
+
+      return true
+    } catch (error) {
+      console.error('License deactivation error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Free an activation slot by id (dashboard / admin)
    */
-  async bindLicenseToHardware(
+  async removeActivation(
     licenseId: string,
-    hardwareInfo: HardwareInfo
+    activationId: string,
+    actor: LicenseEventActor = SYSTEM_ACTOR
   ): Promise<boolean> {
     try {
-      const fingerprint = this.generateHardwareFingerprint(hardwareInfo)
-      
-      await prisma.license.update({
-        where: { id: licenseId },
-        data: { 
-          hardwareFingerprint: fingerprint,
-          hardwareInfo: JSON.stringify(hardwareInfo)
+      const result = await prisma.licenseActivation.deleteMany({
+        where: {
+          id: activationId,
+          licenseId
         }
       })
 
+      if (result.count === 0) return false
+
+      await this.recordEvent(licenseId, 'DEACTIVATED', actor, { activationId })
+
       return true
     } catch (error) {
-      console.error('Hardware binding error:', error)
+      console.error('Remove activation error:', error)
       return false
     }
   }
 
+  /**
+   * Clear every device binding and session of a license so it can be
+   * activated again from scratch, e.g. after a reinstall. Runs on `tx` when given.
+   */
+  async resetHardwareBinding(
+    licenseId: string,
+    actor: LicenseEventActor = SYSTEM_ACTOR,
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const reset = async (client: Prisma.TransactionClient) => {
+      const activations = await client.licenseActivation.deleteMany({
+        where: { licenseId }
+      })
+      await client.licenseLease.deleteMany({
+        where: { licenseId }
+      })
+
+      await this.recordEvent(licenseId, 'HARDWARE_RESET', actor, { devicesCleared: activations.count }, client)
+    }
+
+    if (tx) {
+      await reset(tx)
+      return true
+    }
+
+    try {
+      await prisma.$transaction(reset)
+
+      return true
+    } catch (error) {
+      console.error('Hardware reset error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Get devices a license is activated on
+   */
+  async getLicenseActivations(licenseId: string) {
+    try {
+      return await prisma.licenseActivation.findMany({
+        where: { licenseId },
+        select: {
+          id: true,
+          deviceName: true,
+          ipAddress: true,
+          lastSeenAt: true,
+          createdAt: true
+        },
+        orderBy: { lastSeenAt: 'desc' }
+      })
+    } catch (error) {
+      console.error('Get license activations error:', error)
+      return []
+    }
+  }
+
+  /**
+   * Parse a key sent by a client. Pool keys are imported as-is, so a key
+   * that fails the v2 checks is still accepted when it's pooled for the product.
+   */
+  private async parseClientKey(licenseKey: string, productId?: string): Promise<ParsedLicenseKey | null> {
+    const parsed = parseLicenseKey(licenseKey)
+    if (parsed && (!productId || isKeyForProduct(parsed, productId))) {
+      return parsed
+    }
+
+    const legacy = parseLegacyLicenseKey(licenseKey)
+    if (!legacy) return parsed
+
+    const pooled = await prisma.pooledLicenseKey.findUnique({
+      where: { licenseKey: legacy.key },
+      select: { productId: true }
+    })
+
+    return pooled && (!productId || pooled.productId === productId) ? legacy : parsed
+  }
+
   /**
    * Generate hardware fingerprint
    */
@@ -210,19 +636,372 @@ export class LicenseManager {
   }
 
   /**
-   * Revoke license
+   * Hash each hardware component separately so a single part swap can be tolerated
+   */
+  private generateComponentHashes(hardwareInfo: HardwareInfo): HardwareComponentHashes {
+    const hashes: HardwareComponentHashes = {}
+
+    for (const component of HARDWARE_COMPONENTS) {
+      const value = hardwareInfo[component]?.trim()
+      if (value) {
+        hashes[component] = crypto.createHash('sha256').update(`${component}:${value}`).digest('hex')
+      }
+    }
+
+    return hashes
+  }
+
+  /**
+   * Fingerprint, component hashes and raw info stored on an activation
+   */
+  private buildActivationBinding(hardwareInfo: HardwareInfo) {
+    return {
+      hardwareFingerprint: this.generateHardwareFingerprint(hardwareInfo),
+      componentHashes: this.generateComponentHashes(hardwareInfo),
+      hardwareInfo: { ...hardwareInfo }
+    }
+  }
+
+  /**
+   * Find the activation for a device: an exact fingerprint match, or the closest
+   * activation with at least `requiredMatches` identical components
+   */
+  private matchActivation<T extends StoredActivation>(
+    activations: T[],
+    hardwareInfo: HardwareInfo
+  ): ActivationMatch<T> | null {
+    const fingerprint = this.generateHardwareFingerprint(hardwareInfo)
+    const exact = activations.find(activation => activation.hardwareFingerprint === fingerprint)
+
+    if (exact) {
+      return { activation: exact, matchedComponents: HARDWARE_COMPONENTS.length, changedComponents: [] }
+    }
+
+    const current = this.generateComponentHashes(hardwareInfo)
+    let best: ActivationMatch<T> | null = null
+
+    for (const activation of activations) {
+      // Activations created before per-component hashing only support exact matches
+      const stored = activation.componentHashes as HardwareComponentHashes | null
+      if (!stored) continue
+
+      const matchedComponents = HARDWARE_COMPONENTS.filter(
+        component => stored[component] && stored[component] === current[component]
+      ).length
+
+      if (
+        matchedComponents >= HARDWARE_MATCH_CONFIG.requiredMatches &&
+        (!best || matchedComponents > best.matchedComponents)
+      ) {
+        best = {
+          activation,
+          matchedComponents,
+          changedComponents: HARDWARE_COMPONENTS.filter(component => stored[component] !== current[component])
+        }
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Record accepted hardware drift in the license owner's security log
+   */
+  private logHardwareDrift(
+    license: { userId: string, licenseKey: string },
+    match: ActivationMatch<StoredActivation & { deviceName: string | null }>,
+    ipAddress?: string,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    return client.securityLog.create({
+      data: {
+        userId: license.userId,
+        action: 'LICENSE_HARDWARE_DRIFT_ACCEPTED',
+        details: `License ${license.licenseKey} re-bound on ${match.activation.deviceName || 'device'}: ` +
+          `${match.changedComponents.join(', ')} changed ` +
+          `(${match.matchedComponents}/${HARDWARE_COMPONENTS.length} components matched)`,
+        ipAddress
+      }
+    })
+  }
+
+  /**
+   * Lock the license row until `tx` ends, so slot checks and the writes that
+   * follow them can't interleave with another request for the same license
+   */
+  async lockLicense(tx: Prisma.TransactionClient, licenseId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM licenses WHERE id = ${licenseId} FOR UPDATE`
+  }
+
+  /**
+   * Append an entry to the license's event timeline
+   */
+  private recordEvent(
+    licenseId: string,
+    type: LicenseEventType,
+    actor: LicenseEventActor = SYSTEM_ACTOR,
+    metadata?: Prisma.InputJsonObject,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    return client.licenseEvent.create({
+      data: {
+        licenseId,
+        type,
+        actorType: actor.type,
+        actorId: actor.id,
+        ipAddress: actor.ipAddress,
+        metadata
+      }
+    })
+  }
+
+  /**
+   * Issue a new license, taking the key from the product's pool when it has
+   * one. Returns null when the pool is empty. Runs on `tx` when given.
    */
-  async revokeLicense(licenseId: string, reason?: string): Promise<boolean> {
+  async issueLicense(
+    data: Omit<Prisma.LicenseUncheckedCreateInput, 'licenseKey'>,
+    keySource: LicenseKeySource,
+    actor: LicenseEventActor = SYSTEM_ACTOR,
+    metadata: Prisma.InputJsonObject = {},
+    tx?: Prisma.TransactionClient
+  ): Promise<License | null> {
+    const license = keySource === 'POOL'
+      ? await keyPoolManager.createLicenseFromPool(data, tx)
+      : await (tx ?? prisma).license.create({
+          data: {
+            ...data,
+            licenseKey: generateLicenseKey(data.productId)
+          }
+        })
+
+    if (license) {
+      await this.recordEvent(license.id, 'ISSUED', actor, { keySource, ...metadata }, tx)
+    }
+
+    return license
+  }
+
+  /**
+   * Claim a trial license. No order is created; repeat claims from the same
+   * account, email pattern, device or IP are refused.
+   */
+  async claimTrial(
+    userId: string,
+    productId: string,
+    client: {
+      hardwareInfo?: HardwareInfo
+      ipAddress?: string
+    } = {}
+  ): Promise<TrialClaimResult> {
     try {
-      await prisma.license.update({
-        where: { id: licenseId },
-        data: { 
-          status: 'REVOKED',
-          revokedAt: new Date(),
-          revocationReason: reason
+      const [user, product] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { email: true, emailVerified: true }
+        }),
+        prisma.product.findFirst({
+          where: { id: productId, isActive: true },
+          select: { id: true, name: true, trialDays: true, licenseKeySource: true }
+        })
+      ])
+
+      if (!user) {
+        return { success: false, error: 'User not found' }
+      }
+
+      if (!user.emailVerified) {
+        return { success: false, error: 'Verify your email address to claim a trial' }
+      }
+
+      if (!product || !product.trialDays) {
+        return { success: false, error: 'This product does not offer a trial' }
+      }
+
+      const existingLicense = await prisma.license.findFirst({
+        where: { userId, productId },
+        select: { id: true }
+      })
+
+      if (existingLicense) {
+        return { success: false, error: 'You already have a license for this product' }
+      }
+
+      const emailPattern = getTrialEmailPattern(user.email)
+      const hardwareFingerprint = client.hardwareInfo
+        ? this.generateHardwareFingerprint(client.hardwareInfo)
+        : null
+      const ipAddress = client.ipAddress && client.ipAddress !== 'unknown' ? client.ipAddress : null
+
+      const previousClaim = await prisma.trialClaim.findFirst({
+        where: {
+          productId,
+          OR: [
+            { userId },
+            { emailPattern },
+            ...(hardwareFingerprint ? [{ hardwareFingerprint }] : []),
+            ...(ipAddress ? [{ ipAddress }] : [])
+          ]
+        },
+        select: {
+          userId: true,
+          emailPattern: true,
+          hardwareFingerprint: true,
+          ipAddress: true
         }
       })
 
+      if (previousClaim) {
+        const matchedOn = previousClaim.userId === userId ? 'account'
+          : previousClaim.emailPattern === emailPattern ? 'email pattern'
+          : hardwareFingerprint && previousClaim.hardwareFingerprint === hardwareFingerprint ? 'hardware fingerprint'
+          : 'IP address'
+
+        await prisma.securityLog.create({
+          data: {
+            userId,
+            action: 'TRIAL_CLAIM_REFUSED',
+            details: `Trial for ${product.name} refused, ${matchedOn} already claimed one`,
+            ipAddress
+          }
+        })
+
+        return {
+          success: false,
+          error: 'A trial for this product has already been claimed from this account, device or network'
+        }
+      }
+
+      const licenseData = {
+        userId,
+        productId,
+        status: 'ACTIVE' as const,
+        isTrial: true,
+        expiresAt: calculatePlanExpiry(product.trialDays),
+        trialClaim: {
+          create: {
+            userId,
+            productId,
+            emailPattern,
+            hardwareFingerprint,
+            ipAddress
+          }
+        }
+      }
+
+      const license = await this.issueLicense(
+        licenseData,
+        product.licenseKeySource,
+        { type: 'USER', id: userId, ipAddress: ipAddress ?? undefined },
+        { trial: true }
+      )
+
+      if (!license) {
+        return { success: false, error: 'Trials for this product are temporarily unavailable' }
+      }
+
+      return {
+        success: true,
+        license: {
+          id: license.id,
+          licenseKey: license.licenseKey,
+          expiresAt: license.expiresAt
+        }
+      }
+    } catch (error) {
+      console.error('Trial claim error:', error)
+      return {
+        success: false,
+        error: 'Trial claim failed'
+      }
+    }
+  }
+
+  /**
+   * Trial claims per product, with how many are still running and how many converted to a paid license
+   */
+  async getTrialStats() {
+    try {
+      const now = new Date()
+      const [claimsByProduct, activeByProduct, paidLicenses, trialClaims] = await Promise.all([
+        prisma.license.groupBy({
+          by: ['productId'],
+          where: { isTrial: true },
+          _count: { _all: true }
+        }),
+        prisma.license.groupBy({
+          by: ['productId'],
+          where: {
+            isTrial: true,
+            status: 'ACTIVE',
+            expiresAt: { gt: now }
+          },
+          _count: { _all: true }
+        }),
+        prisma.license.findMany({
+          where: {
+            isTrial: false,
+            user: { trialClaims: { some: {} } }
+          },
+          select: { userId: true, productId: true }
+        }),
+        prisma.trialClaim.findMany({
+          select: { userId: true, productId: true }
+        })
+      ])
+
+      const products = await prisma.product.findMany({
+        where: { id: { in: claimsByProduct.map(item => item.productId) } },
+        select: { id: true, name: true }
+      })
+
+      const byProduct = claimsByProduct.map(item => {
+        const converted = trialClaims.filter(claim =>
+          claim.productId === item.productId &&
+          paidLicenses.some(paid => paid.userId === claim.userId && paid.productId === claim.productId)
+        ).length
+
+        return {
+          productId: item.productId,
+          productName: products.find(product => product.id === item.productId)?.name || 'Unknown product',
+          claimed: item._count._all,
+          active: activeByProduct.find(active => active.productId === item.productId)?._count._all || 0,
+          converted
+        }
+      })
+
+      return {
+        totalClaimed: byProduct.reduce((sum, item) => sum + item.claimed, 0),
+        totalActive: byProduct.reduce((sum, item) => sum + item.active, 0),
+        totalConverted: byProduct.reduce((sum, item) => sum + item.converted, 0),
+        byProduct
+      }
+    } catch (error) {
+      console.error('Trial stats error:', error)
+      return { totalClaimed: 0, totalActive: 0, totalConverted: 0, byProduct: [] }
+    }
+  }
+
+  /**
+   * Revoke license
+   */
+  async revokeLicense(
+    licenseId: string,
+    reason?: string,
+    actor: LicenseEventActor = SYSTEM_ACTOR
+  ): Promise<boolean> {
+    try {
+      await prisma.$transaction([
+        prisma.license.update({
+          where: { id: licenseId },
+          data: { status: 'REVOKED' }
+        }),
+        this.recordEvent(licenseId, 'REVOKED', actor, { reason: reason ?? null }),
+        prisma.licenseRevocation.create({
+          data: { licenseId, action: 'REVOKED' }
+        })
+      ])
+
       return true
     } catch (error) {
       console.error('License revocation error:', error)
@@ -231,34 +1010,255 @@ export class LicenseManager {
   }
 
   /**
-   * Extend license expiry
+   * Mark an active license whose expiry date has passed as expired
    */
-  async extendLicense(
+  async expireLicense(licenseId: string, actor: LicenseEventActor = SYSTEM_ACTOR): Promise<boolean> {
+    try {
+      const license = await prisma.license.findUnique({
+        where: { id: licenseId },
+        select: { status: true, expiresAt: true }
+      })
+
+      if (!license || license.status !== 'ACTIVE') return false
+
+      await prisma.$transaction([
+        prisma.license.update({
+          where: { id: licenseId },
+          data: { status: 'EXPIRED' }
+        }),
+        this.recordEvent(licenseId, 'EXPIRED', actor, { expiresAt: license.expiresAt?.toISOString() ?? null })
+      ])
+
+      return true
+    } catch (error) {
+      console.error('License expiry error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Suspend license, ending its open sessions. Suspended licenses can be reactivated.
+   */
+  async suspendLicense(
     licenseId: string,
-    extensionDays: number
+    reason?: string,
+    actor: LicenseEventActor = SYSTEM_ACTOR
   ): Promise<boolean> {
+    try {
+      await prisma.$transaction([
+        prisma.license.update({
+          where: { id: licenseId },
+          data: { status: 'SUSPENDED' }
+        }),
+        prisma.licenseLease.deleteMany({
+          where: { licenseId }
+        }),
+        this.recordEvent(licenseId, 'SUSPENDED', actor, { reason: reason ?? null }),
+        prisma.licenseRevocation.create({
+          data: { licenseId, action: 'SUSPENDED' }
+        })
+      ])
+
+      return true
+    } catch (error) {
+      console.error('License suspension error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Return a suspended, revoked or expired license to active
+   */
+  async reactivateLicense(licenseId: string, actor: LicenseEventActor = SYSTEM_ACTOR): Promise<boolean> {
     try {
       const license = await prisma.license.findUnique({
-        where: { id: licenseId }
+        where: { id: licenseId },
+        select: { status: true }
       })
 
       if (!license) return false
 
-      const currentExpiry = license.expiresAt || new Date()
-      const newExpiry = new Date(currentExpiry.getTime() + (extensionDays * 24 * 60 * 60 * 1000))
+      await prisma.$transaction([
+        prisma.license.update({
+          where: { id: licenseId },
+          data: { status: 'ACTIVE' }
+        }),
+        this.recordEvent(licenseId, 'REACTIVATED', actor, { previousStatus: license.status }),
+        // Clients holding the revocation list need to drop the license again
+        ...(license.status === 'REVOKED' || license.status === 'SUSPENDED'
+          ? [prisma.licenseRevocation.create({ data: { licenseId, action: 'REINSTATED' } })]
+          : [])
+      ])
+
+      return true
+    } catch (error) {
+      console.error('License reactivation error:', error)
+      return false
+    }
+  }
 
-      await prisma.license.update({
+  /**
+   * Move a license to another account. Its devices and sessions are released
+   * so the new owner starts with every activation slot free.
+   */
+  async transferLicense(
+    licenseId: string,
+    toUserId: string,
+    actor: LicenseEventActor = SYSTEM_ACTOR
+  ): Promise<boolean> {
+    try {
+      const license = await prisma.license.findUnique({
         where: { id: licenseId },
-        data: { expiresAt: newExpiry }
+        select: { userId: true }
       })
 
+      if (!license || license.userId === toUserId) return false
+
+      await prisma.$transaction([
+        prisma.license.update({
+          where: { id: licenseId },
+          data: { userId: toUserId }
+        }),
+        prisma.licenseActivation.deleteMany({
+          where: { licenseId }
+        }),
+        prisma.licenseLease.deleteMany({
+          where: { licenseId }
+        }),
+        this.recordEvent(licenseId, 'TRANSFERRED', actor, { fromUserId: license.userId, toUserId })
+      ])
+
       return true
     } catch (error) {
+      console.error('License transfer error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Extend license expiry. Stacking keeps the time remaining, otherwise the
+   * extension starts today. Expired licenses are reactivated;
+   * lifetime licenses are left alone and return false.
+   * Inside a transaction (`tx`), errors are thrown so the caller rolls back.
+   */
+  async extendLicense(
+    licenseId: string,
+    extensionDays: number,
+    options: {
+      stackOnRemaining?: boolean
+      actor?: LicenseEventActor
+      reason?: string
+      tx?: Prisma.TransactionClient
+    } = {}
+  ): Promise<boolean> {
+    const client = options.tx ?? prisma
+
+    try {
+      const license = await client.license.findUnique({
+        where: { id: licenseId }
+      })
+
+      // Lifetime licenses never expire; extending one would give it an expiry date
+      if (!license || license.expiresAt === null) return false
+
+      const currentExpiry = getRenewalStartDate(license.expiresAt, options.stackOnRemaining ?? true)
+      const newExpiry = new Date(currentExpiry.getTime() + (extensionDays * 24 * 60 * 60 * 1000))
+
+      const operations = [
+        client.license.update({
+          where: { id: licenseId },
+          data: {
+            expiresAt: newExpiry,
+            ...(license.status === 'EXPIRED' ? { status: 'ACTIVE' as const } : {})
+          }
+        }),
+        this.recordEvent(licenseId, 'EXTENDED', options.actor, {
+          extensionDays,
+          previousExpiry: license.expiresAt?.toISOString() ?? null,
+          newExpiry: newExpiry.toISOString(),
+          reason: options.reason ?? null
+        }, client)
+      ]
+
+      if (options.tx) {
+        for (const operation of operations) {
+          await operation
+        }
+      } else {
+        await prisma.$transaction(operations)
+      }
+
+      return true
+    } catch (error) {
+      if (options.tx) {
+        throw error
+      }
+
       console.error('License extension error:', error)
       return false
     }
   }
 
+  /**
+   * Take back time an extension added, e.g. when the renewal that paid for it
+   * is refunded. The license expires if no time is left. Runs on `tx` when given.
+   */
+  async reverseExtension(
+    licenseId: string,
+    seconds: number,
+    options: {
+      actor?: LicenseEventActor
+      reason?: string
+      tx?: Prisma.TransactionClient
+    } = {}
+  ): Promise<boolean> {
+    const client = options.tx ?? prisma
+
+    try {
+      const license = await client.license.findUnique({
+        where: { id: licenseId }
+      })
+
+      if (!license?.expiresAt) return false
+
+      const newExpiry = new Date(license.expiresAt.getTime() - seconds * 1000)
+      const expired = license.status === 'ACTIVE' && newExpiry < new Date()
+
+      const operations = [
+        client.license.update({
+          where: { id: licenseId },
+          data: {
+            expiresAt: newExpiry,
+            ...(expired ? { status: 'EXPIRED' as const } : {})
+          }
+        }),
+        this.recordEvent(licenseId, 'EXTENSION_REVERSED', options.actor, {
+          reversedDays: Math.round(seconds / (24 * 60 * 60)),
+          previousExpiry: license.expiresAt.toISOString(),
+          newExpiry: newExpiry.toISOString(),
+          reason: options.reason ?? null
+        }, client)
+      ]
+
+      if (options.tx) {
+        for (const operation of operations) {
+          await operation
+        }
+      } else {
+        await prisma.$transaction(operations)
+      }
+
+      return true
+    } catch (error) {
+      if (options.tx) {
+        throw error
+      }
+
+      console.error('License extension reversal error:', error)
+      return false
+    }
+  }
+
   /**
    * Get license usage statistics
    */
@@ -268,8 +1268,25 @@ export class LicenseManager {
         prisma.license.findUnique({
           where: { id: licenseId },
           include: {
-            product: { select: { name: true } },
-            user: { select: { name: true, email: true } }
+            product: { select: { name: true, maxActivations: true } },
+            user: { select: { name: true, email: true } },
+            trialClaim: { select: { emailPattern: true, ipAddress: true, createdAt: true } },
+            sharingFlags: { orderBy: { createdAt: 'desc' }, take: 10 },
+            events: {
+              include: { actor: { select: { name: true, email: true } } },
+              orderBy: { createdAt: 'desc' },
+              take: 100
+            },
+            activations: {
+              select: {
+                id: true,
+                deviceName: true,
+                ipAddress: true,
+                lastSeenAt: true,
+                createdAt: true
+              },
+              orderBy: { lastSeenAt: 'desc' }
+            }
           }
         }),
         prisma.download.count({
@@ -287,6 +1304,7 @@ export class LicenseManager {
       return {
         license,
         stats: {
+          type: license.isTrial ? 'TRIAL' as const : 'PAID' as const,
           downloadCount,
           lastDownload: lastDownload ? {
             date: lastDownload.downloadedAt,
@@ -332,18 +1350,37 @@ export class LicenseManager {
    */
   async cleanupExpiredLicenses(): Promise<number> {
     try {
-      const result = await prisma.license.updateMany({
+      const expired = await prisma.license.findMany({
         where: {
           status: 'ACTIVE',
           expiresAt: {
             lt: new Date()
           }
         },
-        data: {
-          status: 'EXPIRED'
-        }
+        select: { id: true, expiresAt: true }
       })
 
+      if (expired.length === 0) return 0
+
+      const [result] = await prisma.$transaction([
+        prisma.license.updateMany({
+          where: {
+            id: { in: expired.map(license => license.id) },
+            status: 'ACTIVE'
+          },
+          data: {
+            status: 'EXPIRED'
+          }
+        }),
+        prisma.licenseEvent.createMany({
+          data: expired.map(license => ({
+            licenseId: license.id,
+            type: 'EXPIRED' as const,
+            metadata: { expiresAt: license.expiresAt?.toISOString() ?? null }
+          }))
+        })
+      ])
+
       console.log(`Marked ${result.count} licenses as expired`)
       return result.count
     } catch (error) {
@@ -353,6 +1390,24 @@ export class LicenseManager {
   }
 }
 
+// Integer setting from the environment; unset, malformed or too small values use the default
+export function readIntSetting(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback
+}
+
+// Offline license token configuration
+const LICENSE_TOKEN_CONFIG = {
+  // Comma separated, newest first. The first key id signs, older ones remain valid for verification.
+  keyIds: (process.env.LICENSE_TOKEN_KEY_IDS || 'k1').split(',').map(kid => kid.trim()).filter(Boolean),
+  ttlHours: readIntSetting(process.env.LICENSE_TOKEN_TTL_HOURS, 72, 1),
+  graceHours: readIntSetting(process.env.LICENSE_TOKEN_GRACE_HOURS, 24, 0),
+}
+
+// Hardware fingerprint tolerance: how many of the five components must still match
+const HARDWARE_MATCH_CONFIG = {
+  requiredMatches: Math.min(readIntSetting(process.env.LICENSE_HARDWARE_MIN_MATCHES, 3, 1), 5),
+}
+
 // Create singleton instance
-const encryptionKey = process.env.LICENSE_ENCRYPTION_KEY || 'default-key-change-in-production'
-export const licenseManager = new LicenseManager(encryptionKey)
+export const licenseManager = new LicenseManager()
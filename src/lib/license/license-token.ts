@@ -0,0 +1,195 @@
+import crypto from 'crypto'
+
+export interface LicenseTokenClaims {
+  lid: string          // License ID
+  pid: string          // Product ID
+  sub: string          // User ID
+  hwf: string | null   // Hardware fingerprint the token is bound to
+  lexp: number | null  // License expiry (unix seconds), null for lifetime licenses
+  grace: number        // Seconds a client may keep running after `exp` while offline
+  iat: number
+  exp: number
+}
+
+export interface LicenseTokenHeader {
+  alg: 'EdDSA'
+  typ: 'NHLT' | 'NHRL' // License token, revocation list
+  kid: string
+}
+
+export interface LicenseTokenOptions {
+  ttlSeconds: number
+  graceSeconds: number
+}
+
+export interface LicenseTokenKeyMaterial {
+  kid: string
+  seed: Buffer // 32-byte Ed25519 seed
+}
+
+interface SigningKey {
+  kid: string
+  privateKey: crypto.KeyObject
+  publicKey: crypto.KeyObject
+}
+
+// PKCS#8 DER prefix for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url')
+}
+
+function base64UrlDecode(data: string): Buffer {
+  return Buffer.from(data, 'base64url')
+}
+
+/**
+ * Load an independent seed for each key id from LICENSE_TOKEN_KEY_<KID>
+ * (32 bytes, hex or base64), so a leaked key is retired by rotating to a new
+ * id. Outside production a missing seed falls back to a fixed development
+ * key; production refuses to sign with one.
+ */
+export function loadLicenseTokenKeys(keyIds: string[]): LicenseTokenKeyMaterial[] {
+  return keyIds.map(kid => {
+    const envName = `LICENSE_TOKEN_KEY_${kid.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`
+    const value = process.env[envName]?.trim()
+
+    if (!value) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(`${envName} must be set to sign license tokens with key id ${kid}`)
+      }
+
+      return { kid, seed: crypto.createHash('sha256').update(`development-license-token:${kid}`).digest() }
+    }
+
+    const seed = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64')
+    if (seed.length !== 32) {
+      throw new Error(`${envName} must hold a 32-byte key, hex or base64 encoded`)
+    }
+
+    return { kid, seed }
+  })
+}
+
+export class LicenseTokenSigner {
+  private readonly keys = new Map<string, SigningKey>()
+  private readonly activeKeyId: string
+  private readonly options: LicenseTokenOptions
+
+  /**
+   * The first key signs, the rest still verify, so rotating means prepending
+   * a new key id.
+   */
+  constructor(keys: LicenseTokenKeyMaterial[], options: LicenseTokenOptions) {
+    if (keys.length === 0) {
+      throw new Error('At least one license token key id is required')
+    }
+
+    for (const key of keys) {
+      this.keys.set(key.kid, this.createKey(key))
+    }
+
+    this.activeKeyId = keys[0].kid
+    this.options = options
+  }
+
+  /**
+   * Sign an offline license token
+   */
+  sign(claims: Omit<LicenseTokenClaims, 'iat' | 'exp' | 'grace'>): { token: string, claims: LicenseTokenClaims } {
+    const now = Math.floor(Date.now() / 1000)
+    let exp = now + this.options.ttlSeconds
+    let grace = this.options.graceSeconds
+
+    // Never outlive the license itself, grace period included
+    if (claims.lexp !== null) {
+      exp = Math.min(exp, claims.lexp)
+      grace = Math.max(0, Math.min(grace, claims.lexp - exp))
+    }
+
+    const fullClaims: LicenseTokenClaims = {
+      ...claims,
+      grace,
+      iat: now,
+      exp
+    }
+
+    return {
+      token: this.signDocument('NHLT', fullClaims),
+      claims: fullClaims
+    }
+  }
+
+  /**
+   * Sign any payload in the token format, with `typ` telling clients what it holds
+   */
+  signDocument(typ: LicenseTokenHeader['typ'], payload: object): string {
+    const header: LicenseTokenHeader = { alg: 'EdDSA', typ, kid: this.activeKeyId }
+    const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`
+    const key = this.keys.get(this.activeKeyId)!
+    const signature = crypto.sign(null, Buffer.from(signingInput), key.privateKey)
+
+    return `${signingInput}.${base64UrlEncode(signature)}`
+  }
+
+  /**
+   * Verify a token signature and expiry (including grace period)
+   */
+  verify(token: string): LicenseTokenClaims | null {
+    try {
+      const [encodedHeader, encodedClaims, encodedSignature] = token.split('.')
+      if (!encodedHeader || !encodedClaims || !encodedSignature) return null
+
+      const header = JSON.parse(base64UrlDecode(encodedHeader).toString('utf8')) as LicenseTokenHeader
+      const key = this.keys.get(header.kid)
+      if (!key || header.alg !== 'EdDSA') return null
+
+      const isValid = crypto.verify(
+        null,
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        key.publicKey,
+        base64UrlDecode(encodedSignature)
+      )
+      if (!isValid) return null
+
+      const claims = JSON.parse(base64UrlDecode(encodedClaims).toString('utf8')) as LicenseTokenClaims
+      if (claims.exp + claims.grace < Math.floor(Date.now() / 1000)) return null
+
+      return claims
+    } catch {
+      return null
+    }
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId
+  }
+
+  /**
+   * Public keys as a JWK set for offline verification by clients
+   */
+  getPublicKeys() {
+    return Array.from(this.keys.values()).map(key => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      use: 'sig',
+      alg: 'EdDSA',
+      active: key.kid === this.activeKeyId
+    }))
+  }
+
+  private createKey({ kid, seed }: LicenseTokenKeyMaterial): SigningKey {
+    const privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: 'der',
+      type: 'pkcs8'
+    })
+
+    return {
+      kid,
+      privateKey,
+      publicKey: crypto.createPublicKey(privateKey)
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { prisma } from '@/lib/db/prisma'
+import { getSetting } from '@/lib/db/settings'
+import { calculatePlanExpiry } from '@/lib/utils'
+
+export interface RenewalSettings {
+  pricePercent: number           // Renewal price as a percentage of the plan price
+  stackEarlyRenewals: boolean    // Add renewed time on top of the time still remaining
+  earlyRenewalWindowDays: number // How long before expiry renewal opens, 0 for any time
+}
+
+export interface RenewalOption {
+  planId: string
+  name: string
+  durationDays: number
+  price: number
+  regularPrice: number
+  newExpiresAt: Date
+}
+
+export type RenewalQuote =
+  | {
+      success: true
+      license: {
+        id: string
+        licenseKey: string
+        productId: string
+        productName: string
+        expiresAt: Date
+      }
+      options: RenewalOption[]
+    }
+  | {
+      success: false
+      error: string
+    }
+
+export const DEFAULT_RENEWAL_SETTINGS: RenewalSettings = {
+  pricePercent: 100,
+  stackEarlyRenewals: true,
+  earlyRenewalWindowDays: 30
+}
+
+export async function getRenewalSettings(): Promise<RenewalSettings> {
+  return getSetting('renewalSettings', DEFAULT_RENEWAL_SETTINGS)
+}
+
+/**
+ * Start date of a renewal: the current expiry when stacking early renewals, otherwise now
+ */
+export function getRenewalStartDate(expiresAt: Date | null, stackEarlyRenewals: boolean): Date {
+  const now = new Date()
+  return stackEarlyRenewals && expiresAt && expiresAt > now ? expiresAt : now
+}
+
+/**
+ * Renewal plans and prices available for a user's license
+ */
+export async function getRenewalQuote(licenseId: string, userId: string): Promise<RenewalQuote> {
+  const [license, settings] = await Promise.all([
+    prisma.license.findFirst({
+      where: { id: licenseId, userId },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            isActive: true,
+            plans: {
+              where: {
+                isActive: true,
+                durationDays: { not: null }
+              },
+              orderBy: { sortOrder: 'asc' }
+            }
+          }
+        }
+      }
+    }),
+    getRenewalSettings()
+  ])
+
+  if (!license) {
+    return { success: false, error: 'License not found' }
+  }
+
+  if (!license.expiresAt) {
+    return { success: false, error: 'Lifetime licenses do not need renewal' }
+  }
+
+  // A paid renewal would otherwise leave a trial, with its trial limits, on paid time
+  if (license.isTrial) {
+    return { success: false, error: 'Trial licenses cannot be renewed. Purchase the product to keep using it.' }
+  }
+
+  if (license.status !== 'ACTIVE' && license.status !== 'EXPIRED') {
+    return { success: false, error: `License is ${license.status.toLowerCase()} and cannot be renewed` }
+  }
+
+  if (!license.product.isActive || license.product.plans.length === 0) {
+    return { success: false, error: 'This product is no longer offered for renewal' }
+  }
+
+  if (settings.earlyRenewalWindowDays > 0) {
+    const opensAt = new Date(license.expiresAt.getTime() - settings.earlyRenewalWindowDays * 24 * 60 * 60 * 1000)
+    if (opensAt > new Date()) {
+      return {
+        success: false,
+        error: `Renewal opens ${settings.earlyRenewalWindowDays} days before expiry, on ${opensAt.toLocaleDateString()}`
+      }
+    }
+  }
+
+  const startDate = getRenewalStartDate(license.expiresAt, settings.stackEarlyRenewals)
+
+  return {
+    success: true,
+    license: {
+      id: license.id,
+      licenseKey: license.licenseKey,
+      productId: license.product.id,
+      productName: license.product.name,
+      expiresAt: license.expiresAt
+    },
+    options: license.product.plans.map(plan => ({
+      planId: plan.id,
+      name: plan.name,
+      durationDays: plan.durationDays!,
+      price: Math.round(plan.price * settings.pricePercent / 100),
+      regularPrice: plan.price,
+      newExpiresAt: calculatePlanExpiry(plan.durationDays, startDate)!
+    }))
+  }
+}
@@ -0,0 +1,103 @@
+import type { RevocationAction } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+
+export const REVOCATION_LIST_VERSION = 1
+
+export interface RevocationListEntry {
+  serial: number           // 0 for licenses revoked before the list existed
+  lid: string              // License ID, as in the offline token's `lid` claim
+  status: RevocationAction // REINSTATED removes the license from a cached list
+  at: number               // Unix seconds
+}
+
+export interface RevocationListPayload {
+  ver: number          // REVOCATION_LIST_VERSION, matches the /v1/ endpoint path
+  pid: string | null   // Product the list is limited to, null for all products
+  serial: number       // Pass as `since` on the next fetch
+  since: number | null // Null when this is a full list that replaces the cached one
+  entries: RevocationListEntry[]
+  iat: number
+}
+
+// Deltas longer than this are answered with a full list, which is smaller by then
+const MAX_DELTA_ENTRIES = 1000
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000)
+}
+
+/**
+ * Build the revocation list for clients. With `since`, only changes after that
+ * serial are returned; a full list holds every currently revoked or suspended
+ * license.
+ */
+export async function buildRevocationList(since: number | null, productId?: string): Promise<RevocationListPayload> {
+  const licenseFilter = productId ? { license: { productId } } : {}
+
+  const latest = await prisma.licenseRevocation.aggregate({
+    where: licenseFilter,
+    _max: { serial: true }
+  })
+  const serial = latest._max.serial ?? 0
+
+  const payload = {
+    ver: REVOCATION_LIST_VERSION,
+    pid: productId ?? null,
+    serial,
+    iat: toUnixSeconds(new Date())
+  }
+
+  // A serial ahead of ours means the client's list came from elsewhere, start over
+  if (since !== null && since <= serial) {
+    const changes = await prisma.licenseRevocation.findMany({
+      where: {
+        ...licenseFilter,
+        serial: { gt: since }
+      },
+      orderBy: { serial: 'asc' },
+      take: MAX_DELTA_ENTRIES + 1
+    })
+
+    if (changes.length <= MAX_DELTA_ENTRIES) {
+      return {
+        ...payload,
+        since,
+        entries: changes.map(change => ({
+          serial: change.serial,
+          lid: change.licenseId,
+          status: change.action,
+          at: toUnixSeconds(change.createdAt)
+        }))
+      }
+    }
+  }
+
+  // Read from the licenses themselves so keys revoked before the feed existed are included
+  const licenses = await prisma.license.findMany({
+    where: {
+      status: { in: ['REVOKED', 'SUSPENDED'] },
+      ...(productId ? { productId } : {})
+    },
+    select: {
+      id: true,
+      status: true,
+      updatedAt: true,
+      revocations: {
+        orderBy: { serial: 'desc' },
+        take: 1,
+        select: { serial: true, createdAt: true }
+      }
+    }
+  })
+
+  return {
+    ...payload,
+    since: null,
+    entries: licenses.map(license => ({
+      serial: license.revocations[0]?.serial ?? 0,
+      lid: license.id,
+      status: license.status as RevocationAction,
+      at: toUnixSeconds(license.revocations[0]?.createdAt ?? license.updatedAt)
+    }))
+  }
+}
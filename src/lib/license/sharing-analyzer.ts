@@ -0,0 +1,167 @@
+import type { SharingFlagStatus } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { getDownloadLimits } from '@/lib/download/download-limits'
+import { notificationService } from '@/lib/notifications/notification-service'
+
+export interface SharingAnalysisResult {
+  licensesChecked: number
+  flagsCreated: number
+  flagsUpdated: number
+}
+
+interface LicenseUsage {
+  ips: Set<string>
+  userAgents: Set<string>
+  downloads: number
+}
+
+export class SharingAnalyzer {
+  /**
+   * Flag active licenses whose downloads and sessions come from more IPs or
+   * user agents than a single customer plausibly uses in the window
+   */
+  async analyze(): Promise<SharingAnalysisResult> {
+    const limits = await getDownloadLimits()
+    const windowEnd = new Date()
+    const windowStart = new Date(windowEnd.getTime() - limits.sharingWindowHours * 60 * 60 * 1000)
+
+    const [downloads, leases] = await Promise.all([
+      prisma.download.findMany({
+        where: {
+          downloadedAt: { gte: windowStart },
+          license: { status: 'ACTIVE' }
+        },
+        select: { licenseId: true, ipAddress: true, userAgent: true }
+      }),
+      prisma.licenseLease.findMany({
+        where: {
+          createdAt: { gte: windowStart },
+          license: { status: 'ACTIVE' }
+        },
+        select: { licenseId: true, ipAddress: true, userAgent: true }
+      })
+    ])
+
+    const usage = new Map<string, LicenseUsage>()
+    for (const entry of [...downloads, ...leases]) {
+      const licenseUsage = usage.get(entry.licenseId) || { ips: new Set(), userAgents: new Set(), downloads: 0 }
+      if (entry.ipAddress && entry.ipAddress !== 'unknown') licenseUsage.ips.add(entry.ipAddress)
+      if (entry.userAgent && entry.userAgent !== 'unknown') licenseUsage.userAgents.add(entry.userAgent)
+      usage.set(entry.licenseId, licenseUsage)
+    }
+    for (const download of downloads) {
+      usage.get(download.licenseId)!.downloads++
+    }
+
+    const result: SharingAnalysisResult = {
+      licensesChecked: usage.size,
+      flagsCreated: 0,
+      flagsUpdated: 0
+    }
+
+    for (const [licenseId, licenseUsage] of usage) {
+      const reasons = []
+      if (licenseUsage.ips.size >= limits.sharingIpThreshold) {
+        reasons.push(`${licenseUsage.ips.size} IP addresses`)
+      }
+      if (licenseUsage.userAgents.size >= limits.sharingUserAgentThreshold) {
+        reasons.push(`${licenseUsage.userAgents.size} user agents`)
+      }
+
+      if (reasons.length === 0) continue
+
+      const flagged = await this.flagLicense(licenseId, {
+        reason: `Used from ${reasons.join(' and ')} within ${limits.sharingWindowHours} hours`,
+        distinctIps: licenseUsage.ips.size,
+        distinctUserAgents: licenseUsage.userAgents.size,
+        downloadCount: licenseUsage.downloads,
+        windowStart,
+        windowEnd
+      })
+
+      if (flagged === 'created') result.flagsCreated++
+      if (flagged === 'updated') result.flagsUpdated++
+    }
+
+    return result
+  }
+
+  /**
+   * Close a license's open flags once an admin has acted on them
+   */
+  async resolveFlags(licenseId: string, status: Exclude<SharingFlagStatus, 'OPEN'>, reviewedById: string): Promise<number> {
+    const resolved = await prisma.licenseSharingFlag.updateMany({
+      where: { licenseId, status: 'OPEN' },
+      data: {
+        status,
+        reviewedById,
+        reviewedAt: new Date()
+      }
+    })
+
+    return resolved.count
+  }
+
+  private async flagLicense(
+    licenseId: string,
+    data: {
+      reason: string
+      distinctIps: number
+      distinctUserAgents: number
+      downloadCount: number
+      windowStart: Date
+      windowEnd: Date
+    }
+  ): Promise<'created' | 'updated' | 'skipped'> {
+    const [openFlag, recentlyDismissed] = await Promise.all([
+      prisma.licenseSharingFlag.findFirst({
+        where: { licenseId, status: 'OPEN' },
+        select: { id: true }
+      }),
+      // Don't re-flag usage an admin has already reviewed
+      prisma.licenseSharingFlag.findFirst({
+        where: {
+          licenseId,
+          status: 'DISMISSED',
+          reviewedAt: { gte: data.windowStart }
+        },
+        select: { id: true }
+      })
+    ])
+
+    if (recentlyDismissed) return 'skipped'
+
+    if (openFlag) {
+      await prisma.licenseSharingFlag.update({
+        where: { id: openFlag.id },
+        data
+      })
+      return 'updated'
+    }
+
+    const flag = await prisma.licenseSharingFlag.create({
+      data: { licenseId, ...data },
+      include: {
+        license: {
+          select: {
+            licenseKey: true,
+            product: { select: { name: true } },
+            user: { select: { email: true } }
+          }
+        }
+      }
+    })
+
+    await notificationService.notifyAdmins(
+      'Possible License Sharing',
+      `License ${flag.license.licenseKey} (${flag.license.product.name}, ${flag.license.user.email}) ` +
+        `looks shared: ${data.reason.toLowerCase()}.`,
+      { licenseId, flagId: flag.id }
+    )
+
+    return 'created'
+  }
+}
+
+// Create singleton instance
+export const sharingAnalyzer = new SharingAnalyzer()
@@ -0,0 +1,29 @@
+// Mail providers where every address is a separate person. Addresses on any
+// other domain are grouped per domain, since the domain owner can mint inboxes.
+const PUBLIC_EMAIL_DOMAINS = (
+  process.env.TRIAL_PUBLIC_EMAIL_DOMAINS ||
+  'gmail.com,googlemail.com,yahoo.com,yahoo.co.id,outlook.com,hotmail.com,live.com,icloud.com,proton.me,protonmail.com'
+).split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean)
+
+// Providers that ignore dots in the local part
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com', 'googlemail.com']
+
+/**
+ * Normalize an email into the pattern trials are tracked by, so aliases like
+ * "j.doe+trial@gmail.com" and "jdoe@gmail.com" count as the same claimant
+ */
+export function getTrialEmailPattern(email: string): string {
+  const [rawLocal, rawDomain] = email.trim().toLowerCase().split('@')
+  const domain = rawDomain === 'googlemail.com' ? 'gmail.com' : rawDomain
+
+  if (!PUBLIC_EMAIL_DOMAINS.includes(domain)) {
+    return `@${domain}`
+  }
+
+  let local = rawLocal.split('+')[0]
+  if (DOT_INSENSITIVE_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '')
+  }
+
+  return `${local}@${domain}`
+}
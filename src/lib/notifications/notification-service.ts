@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/db/prisma'
 import { emailService } from '@/lib/email/mailer'
+import { formatCurrency } from '@/lib/utils'
 
 export type NotificationType = 
   | 'INFO' 
@@ -262,13 +263,37 @@ export class NotificationService {
     })
   }
 
-  async notifyLicenseExpiring(userId: string, productName: string, expiryDate: Date) {
+  async notifyOrderCancelled(userId: string, orderId: string, reason?: string) {
+    return this.createNotification({
+      userId,
+      title: 'Order Cancelled',
+      message: `Your order #${orderId.slice(-8)} has been cancelled. ${reason || ''}`.trim(),
+      type: 'ORDER_UPDATE',
+      data: { orderId, reason },
+      sendEmail: true,
+      emailTemplate: 'order_cancelled'
+    })
+  }
+
+  async notifyOrderRefunded(userId: string, orderId: string, amount: number, reason?: string) {
+    return this.createNotification({
+      userId,
+      title: 'Order Refunded',
+      message: `A refund of ${formatCurrency(amount)} for order #${orderId.slice(-8)} has been processed. ${reason || ''}`.trim(),
+      type: 'ORDER_UPDATE',
+      data: { orderId, amount, reason },
+      sendEmail: true,
+      emailTemplate: 'order_refunded'
+    })
+  }
+
+  async notifyLicenseExpiring(userId: string, productName: string, expiryDate: Date, licenseId?: string) {
     return this.createNotification({
       userId,
       title: 'License Expiring Soon',
-      message: `Your license for ${productName} will expire on ${expiryDate.toLocaleDateString()}.`,
+      message: `Your license for ${productName} will expire on ${expiryDate.toLocaleDateString()}. You can renew it from your dashboard.`,
       type: 'LICENSE_EXPIRY',
-      data: { productName, expiryDate: expiryDate.toISOString() },
+      data: { licenseId, productName, expiryDate: expiryDate.toISOString() },
       sendEmail: true,
       emailTemplate: 'license_expiry'
     })
@@ -287,6 +312,20 @@ export class NotificationService {
       emailTemplate: 'system_maintenance'
     })
   }
+
+  async notifyAdmins(title: string, message: string, data: Record<string, unknown> = {}) {
+    const admins = await prisma.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { id: true }
+    })
+
+    return this.createBulkNotifications(admins.map(admin => admin.id), {
+      title,
+      message,
+      type: 'WARNING',
+      data
+    })
+  }
 }
 
 // Create singleton instance
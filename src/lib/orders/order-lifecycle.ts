@@ -0,0 +1,385 @@
+import type { License, OrderStatus, Prisma, Product } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { calculatePlanExpiry, calculateUpdatesUntil } from '@/lib/utils'
+import { licenseManager, type LicenseEventActor } from '@/lib/license/license-manager'
+import { keyPoolManager } from '@/lib/license/key-pool'
+import { getRenewalSettings } from '@/lib/license/renewal'
+import { sendOrderConfirmationEmail } from '@/lib/email/service'
+import { notificationService } from '@/lib/notifications/notification-service'
+import { canTransitionOrder, ORDER_STATUS_LABELS } from './order-status'
+
+const lifecycleOrderInclude = {
+  items: {
+    include: {
+      product: true
+    }
+  },
+  user: true
+} as const
+
+export type LifecycleOrder = Prisma.OrderGetPayload<{ include: typeof lifecycleOrderInclude }>
+
+export interface OrderFulfillment {
+  licenses: Array<License & { product: Product }>
+  missing: Array<{ productId: string, productName: string, quantity: number }> // Items whose key pool ran dry
+  failedRenewals: Array<{ licenseId: string, productName: string, durationDays: number | null }> // Paid renewals that didn't extend their license
+}
+
+export interface LicenseRevocationResult {
+  revoked: number            // Licenses revoked or renewals taken back
+  failedLicenseIds: string[] // Still live; an admin has to revoke these by hand
+}
+
+export interface OrderTransitionOptions {
+  from?: OrderStatus[]              // Only move orders currently in one of these statuses
+  reason?: string
+  actor?: LicenseEventActor
+  paymentData?: Prisma.JsonObject   // Merged into the order's payment data
+}
+
+export interface AppliedOrderTransition {
+  order: LifecycleOrder // As it was before the change
+  from: OrderStatus
+  to: OrderStatus
+  reason: string | null
+  actor?: LicenseEventActor
+  fulfillment: OrderFulfillment | null
+}
+
+export type OrderTransitionResult =
+  | {
+      success: true
+      transition: AppliedOrderTransition
+    }
+  | {
+      success: false
+      error: string
+    }
+
+export class OrderLifecycle {
+  /**
+   * Change an order's status and apply its side effects
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    options: OrderTransitionOptions = {}
+  ): Promise<OrderTransitionResult> {
+    const result = await prisma.$transaction(
+      (tx) => this.applyTransition(tx, orderId, to, options),
+      { timeout: 15000 }
+    )
+
+    if (result.success) {
+      await this.runSideEffects(result.transition)
+    }
+
+    return result
+  }
+
+  /**
+   * Change an order's status on the caller's transaction. Licenses for a paid
+   * order are issued in the same transaction; everything else happens in
+   * runSideEffects(), which the caller runs after commit.
+   */
+  async applyTransition(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    to: OrderStatus,
+    options: OrderTransitionOptions = {}
+  ): Promise<OrderTransitionResult> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: lifecycleOrderInclude
+    })
+
+    if (!order) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    if ((options.from && !options.from.includes(order.status)) || !canTransitionOrder(order.status, to)) {
+      return {
+        success: false,
+        error: `Order is ${ORDER_STATUS_LABELS[order.status].toLowerCase()} and cannot be marked ${ORDER_STATUS_LABELS[to].toLowerCase()}`
+      }
+    }
+
+    // Guarded on the status just read, so two concurrent changes can't both apply
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: {
+        status: to,
+        ...(options.paymentData
+          ? { paymentData: { ...(order.paymentData ?? {}) as Prisma.JsonObject, ...options.paymentData } }
+          : {})
+      }
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'Order was changed by another request' }
+    }
+
+    const fulfillment = to === 'PAID'
+      ? await this.fulfillLicenses(tx, order)
+      : null
+
+    return {
+      success: true,
+      transition: {
+        order,
+        from: order.status,
+        to,
+        reason: options.reason ?? null,
+        actor: options.actor,
+        fulfillment
+      }
+    }
+  }
+
+  /**
+   * Notifications and other work that must not roll back a committed status change
+   */
+  async runSideEffects(transition: AppliedOrderTransition): Promise<void> {
+    const { order, reason } = transition
+
+    try {
+      switch (transition.to) {
+        case 'PAID':
+          await this.afterPaid(order, transition.fulfillment)
+          break
+
+        case 'FAILED':
+          await notificationService.notifyPaymentFailed(order.userId, order.id, reason ?? undefined)
+          break
+
+        case 'CANCELLED':
+          await notificationService.notifyOrderCancelled(order.userId, order.id, reason ?? undefined)
+          break
+
+        case 'NEEDS_REVIEW':
+          await notificationService.notifyAdmins(
+            'Order Needs Review',
+            `Order ${order.id} is on hold: ${reason || 'flagged for review'}. ` +
+              'Check it against the payment provider before settling it.',
+            { orderId: order.id, previousStatus: transition.from }
+          )
+          break
+
+        case 'REFUNDED': {
+          // Licenses were revoked by the refund manager, which reports failures to the admin.
+          // The refund that closed the order; earlier partial refunds were notified already
+          const refund = await prisma.refund.findFirst({
+            where: { orderId: order.id, status: 'COMPLETED' },
+            orderBy: { createdAt: 'desc' },
+            select: { amount: true }
+          })
+          await notificationService.notifyOrderRefunded(order.userId, order.id, refund?.amount ?? order.total, reason ?? undefined)
+          break
+        }
+      }
+    } catch (error) {
+      console.error('Order side effect error:', order.id, transition.to, error)
+    }
+
+    console.log(`Order ${order.id}: ${transition.from} -> ${transition.to}`)
+  }
+
+  /**
+   * Revoke licenses issued for the given order items. Renewal items take back
+   * the time they added instead, since the license predates the order.
+   */
+  async revokeOrderLicenses(
+    order: {
+      id: string
+      items: Array<{ id: string, renewalLicenseId: string | null, renewalSeconds: number | null }>
+    },
+    reason: string,
+    actor?: LicenseEventActor
+  ): Promise<LicenseRevocationResult> {
+    const result: LicenseRevocationResult = { revoked: 0, failedLicenseIds: [] }
+
+    const licenses = await prisma.license.findMany({
+      where: {
+        orderItemId: { in: order.items.map(item => item.id) },
+        status: { not: 'REVOKED' }
+      },
+      select: { id: true }
+    })
+
+    for (const license of licenses) {
+      if (await licenseManager.revokeLicense(license.id, reason, actor)) {
+        result.revoked++
+      } else {
+        console.error('Failed to revoke license:', license.id, 'order:', order.id)
+        result.failedLicenseIds.push(license.id)
+      }
+    }
+
+    for (const item of order.items) {
+      if (!item.renewalLicenseId || !item.renewalSeconds) continue
+
+      if (await licenseManager.reverseExtension(item.renewalLicenseId, item.renewalSeconds, { actor, reason })) {
+        result.revoked++
+      } else {
+        console.error('Failed to reverse renewal:', item.renewalLicenseId, 'order:', order.id)
+        result.failedLicenseIds.push(item.renewalLicenseId)
+      }
+    }
+
+    return result
+  }
+
+  private async afterPaid(order: LifecycleOrder, fulfillment: OrderFulfillment | null) {
+    const { licenses, missing, failedRenewals } = fulfillment ?? { licenses: [], missing: [], failedRenewals: [] }
+
+    for (const item of missing) {
+      await notificationService.notifyAdmins(
+        'Paid Order Missing License Keys',
+        `Order ${order.id} was paid but ${item.productName} ran out of pooled keys. ` +
+          `Import more keys and issue ${item.quantity} license(s) manually.`,
+        { orderId: order.id, productId: item.productId, missing: item.quantity }
+      )
+    }
+
+    for (const renewal of failedRenewals) {
+      await notificationService.notifyAdmins(
+        'Paid Renewal Not Applied',
+        `Order ${order.id} paid to renew a ${renewal.productName} license, but the license could not be extended. ` +
+          `Extend license ${renewal.licenseId} manually or refund the order.`,
+        { orderId: order.id, licenseId: renewal.licenseId, durationDays: renewal.durationDays }
+      )
+    }
+
+    for (const item of order.items) {
+      if (item.product.licenseKeySource === 'POOL' && !item.renewalLicenseId) {
+        await keyPoolManager.checkLowStock(item.productId)
+      }
+    }
+
+    // Send email notification with license keys
+    try {
+      const paymentData = (order.paymentData ?? {}) as Prisma.JsonObject
+      const customerInfo = (paymentData.customerInfo ?? {}) as { name?: string }
+
+      await sendOrderConfirmationEmail({
+        customerEmail: order.user.email,
+        customerName: customerInfo.name || order.user.name || 'Customer',
+        orderId: order.id,
+        total: order.total,
+        items: order.items.map(item => ({
+          name: item.product.name,
+          quantity: item.quantity,
+          price: item.price
+        })),
+        licenses: licenses.map(license => ({
+          productName: license.product?.name || 'Product',
+          licenseKey: license.licenseKey,
+          // Builds are only served through signed links from the dashboard
+          downloadUrl: `${process.env.NEXTAUTH_URL}/dashboard`
+        })),
+        orderDate: order.createdAt
+      })
+
+      console.log('Order confirmation email sent to:', order.user.email)
+    } catch (emailError) {
+      console.error('Failed to send order confirmation email:', emailError)
+    }
+
+    await notificationService.notifyPaymentSuccess(order.userId, order.id, order.total)
+  }
+
+  /**
+   * Issue (or, for renewals, extend) the licenses an order paid for. Items
+   * whose key pool ran dry are returned in `missing`, and renewals that
+   * couldn't be applied in `failedRenewals`, rather than failing the payment.
+   */
+  private async fulfillLicenses(tx: Prisma.TransactionClient, order: LifecycleOrder): Promise<OrderFulfillment> {
+    const licenses: OrderFulfillment['licenses'] = []
+    const missing: OrderFulfillment['missing'] = []
+    const failedRenewals: OrderFulfillment['failedRenewals'] = []
+    const renewalSettings = await getRenewalSettings()
+
+    for (const item of order.items) {
+      // Renewals extend the existing license instead of minting a new key
+      if (item.renewalLicenseId) {
+        const previous = await tx.license.findUnique({
+          where: { id: item.renewalLicenseId },
+          select: { expiresAt: true }
+        })
+
+        const extended = item.durationDays !== null && await licenseManager.extendLicense(
+          item.renewalLicenseId,
+          item.durationDays,
+          {
+            stackOnRemaining: renewalSettings.stackEarlyRenewals,
+            reason: `Renewal order ${order.id}`,
+            tx
+          }
+        )
+
+        if (!extended) {
+          console.error('Failed to renew license:', item.renewalLicenseId, 'order:', order.id)
+          failedRenewals.push({ licenseId: item.renewalLicenseId, productName: item.product.name, durationDays: item.durationDays })
+          continue
+        }
+
+        const renewedLicense = await tx.license.findUnique({
+          where: { id: item.renewalLicenseId },
+          include: {
+            product: true
+          }
+        })
+
+        if (renewedLicense) {
+          licenses.push(renewedLicense)
+        }
+
+        // Remembered so a refund takes back exactly the time this renewal added
+        if (renewedLicense?.expiresAt && item.durationDays !== null) {
+          const addedFrom = previous?.expiresAt?.getTime() ??
+            renewedLicense.expiresAt.getTime() - item.durationDays * 24 * 60 * 60 * 1000
+
+          await tx.orderItem.update({
+            where: { id: item.id },
+            data: { renewalSeconds: Math.round((renewedLicense.expiresAt.getTime() - addedFrom) / 1000) }
+          })
+        }
+        continue
+      }
+
+      for (let i = 0; i < item.quantity; i++) {
+        const licenseData = {
+          userId: order.userId,
+          productId: item.productId,
+          orderItemId: item.id,
+          status: 'ACTIVE' as const,
+          // Expiry follows the plan duration captured at purchase
+          expiresAt: calculatePlanExpiry(item.durationDays),
+          updatesUntil: calculateUpdatesUntil(item.product.updateMonths)
+        }
+
+        // Licenses are issued one at a time so pooled keys are claimed atomically
+        const license = await licenseManager.issueLicense(
+          licenseData,
+          item.product.licenseKeySource,
+          undefined,
+          { orderId: order.id },
+          tx
+        )
+
+        if (!license) {
+          console.error('License key pool empty for product:', item.productId, 'order:', order.id)
+          missing.push({ productId: item.productId, productName: item.product.name, quantity: item.quantity - i })
+          break
+        }
+
+        licenses.push({ ...license, product: item.product })
+      }
+    }
+
+    return { licenses, missing, failedRenewals }
+  }
+}
+
+// Create singleton instance
+export const orderLifecycle = new OrderLifecycle()
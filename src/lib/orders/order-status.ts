@@ -0,0 +1,46 @@
+import type { OrderStatus } from '@prisma/client'
+
+/**
+ * Allowed order status changes. Kept free of server imports so admin and
+ * dashboard components can share it; side effects live in order-lifecycle.ts.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ['PAID', 'FAILED', 'CANCELLED', 'NEEDS_REVIEW'],
+  // Held orders are settled by an admin either way
+  NEEDS_REVIEW: ['PAID', 'FAILED', 'CANCELLED'],
+  // A payment arriving after the order closed is held rather than dropped
+  FAILED: ['NEEDS_REVIEW'],
+  CANCELLED: ['NEEDS_REVIEW'],
+  PAID: ['REFUNDED'],
+  REFUNDED: [],
+}
+
+// Status new orders are created in, before the payment settles
+export const INITIAL_ORDER_STATUS: OrderStatus = 'PENDING'
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: 'Pending',
+  PAID: 'Paid',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+  REFUNDED: 'Refunded',
+  NEEDS_REVIEW: 'Needs review',
+}
+
+export const ORDER_STATUSES = Object.keys(ORDER_TRANSITIONS) as OrderStatus[]
+
+// Orders whose total counts as revenue
+export const REVENUE_ORDER_STATUSES: OrderStatus[] = ['PAID']
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to)
+}
+
+export function getAllowedOrderTransitions(from: OrderStatus): readonly OrderStatus[] {
+  return ORDER_TRANSITIONS[from]
+}
+
+// Statuses an order can be moved to `to` from
+export function getOrderStatusesLeadingTo(to: OrderStatus): OrderStatus[] {
+  return ORDER_STATUSES.filter(from => canTransitionOrder(from, to))
+}
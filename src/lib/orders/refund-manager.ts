@@ -0,0 +1,328 @@
+import type { Refund, RefundItem } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { notificationService } from '@/lib/notifications/notification-service'
+import { getPaymentProvider, getPaymentProviderByName } from '@/lib/payment'
+import type { LicenseEventActor } from '@/lib/license/license-manager'
+import { orderLifecycle, type AppliedOrderTransition } from './order-lifecycle'
+
+export interface RefundRequest {
+  orderItemIds?: string[] // Items to refund; all remaining items when omitted
+  reason: string
+  adminId: string
+}
+
+export type RefundResult =
+  | {
+      success: true
+      refund: Refund & { items: RefundItem[] }
+      fullyRefunded: boolean
+      unrevokedLicenseIds: string[] // Licenses still live after the refund; an admin must revoke them
+    }
+  | {
+      success: false
+      error: string
+    }
+
+export class RefundManager {
+  /**
+   * Refund whole order items. The items are reserved by a pending refund
+   * first, so concurrent requests can't refund them twice; then the provider
+   * is asked to refund the money when it can, otherwise the refund is
+   * recorded as paid out manually. Licenses issued for the refunded items are
+   * revoked, and an order with nothing left to refund becomes REFUNDED. The
+   * refund that takes the last items also returns the order's payment fee.
+   */
+  async refundOrder(orderId: string, request: RefundRequest): Promise<RefundResult> {
+    const reservation = await this.reserveRefund(orderId, request)
+    if (!reservation.success) {
+      return reservation
+    }
+
+    const { order, selected, provider, payment, refund } = reservation
+
+    if (provider?.supportsRefunds) {
+      const result = await provider.refund({
+        orderId: order.id,
+        reference: payment?.reference || order.paymentId || order.id,
+        amount: refund.amount,
+        reason: request.reason
+      }).catch((error: unknown) => {
+        console.error('Provider refund error:', order.id, error)
+        return { success: false, error: 'Payment provider could not be reached', refundReference: undefined }
+      })
+
+      if (!result.success) {
+        const error = result.error || 'Payment provider rejected the refund'
+
+        // Release the items so the refund can be tried again
+        await prisma.$transaction([
+          prisma.refundItem.deleteMany({
+            where: { refundId: refund.id }
+          }),
+          prisma.refund.update({
+            where: { id: refund.id },
+            data: { status: 'FAILED', failureReason: error }
+          })
+        ])
+
+        return { success: false, error }
+      }
+
+      // Kept before completing, so a failed completion can be resumed without refunding twice
+      await prisma.refund.update({
+        where: { id: refund.id },
+        data: { providerReference: result.refundReference ?? null, confirmedAt: new Date() }
+      })
+    }
+
+    return this.completeRefund(refund.id, order, selected, request.reason, { type: 'ADMIN', id: request.adminId })
+  }
+
+  /**
+   * Finish a refund left PENDING after the money was returned, e.g. when
+   * completing it failed. A provider refund that was never confirmed needs
+   * the provider's reference, after the admin checked it went through.
+   */
+  async resumeRefund(refundId: string, adminId: string, providerReference?: string): Promise<RefundResult> {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: {
+        order: {
+          select: { id: true, userId: true }
+        },
+        items: {
+          include: {
+            orderItem: {
+              include: {
+                licenses: {
+                  where: { status: { not: 'REVOKED' } },
+                  select: { id: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!refund) {
+      return { success: false, error: 'Refund not found' }
+    }
+
+    if (refund.status !== 'PENDING') {
+      return { success: false, error: 'Only pending refunds can be resumed' }
+    }
+
+    if (refund.method === 'PROVIDER' && !refund.confirmedAt) {
+      if (!providerReference) {
+        return {
+          success: false,
+          error: 'The provider never confirmed this refund. Check it with the provider and enter its refund reference.'
+        }
+      }
+
+      await prisma.refund.update({
+        where: { id: refund.id },
+        data: { providerReference, confirmedAt: new Date() }
+      })
+    }
+
+    return this.completeRefund(
+      refund.id,
+      refund.order,
+      refund.items.map(item => item.orderItem),
+      refund.reason,
+      { type: 'ADMIN', id: adminId }
+    )
+  }
+
+  /**
+   * Mark a refund whose money was returned as completed, move a fully
+   * refunded order to REFUNDED, then revoke the refunded items' licenses
+   */
+  private async completeRefund(
+    refundId: string,
+    order: { id: string, userId: string },
+    items: Array<{ id: string, renewalLicenseId: string | null, renewalSeconds: number | null, licenses: Array<{ id: string }> }>,
+    reason: string,
+    actor: LicenseEventActor
+  ): Promise<RefundResult> {
+    const completion = await prisma.$transaction(async (tx) => {
+      // Only one caller gets to complete a pending refund
+      const claimed = await tx.refund.updateMany({
+        where: { id: refundId, status: 'PENDING' },
+        data: { status: 'COMPLETED' }
+      })
+
+      if (claimed.count === 0) {
+        return null
+      }
+
+      const completed = await tx.refund.findUniqueOrThrow({
+        where: { id: refundId },
+        include: {
+          items: true
+        }
+      })
+
+      // Items not covered by a completed refund, including ones another refund still holds
+      const remaining = await tx.orderItem.count({
+        where: {
+          orderId: order.id,
+          OR: [
+            { refundItem: { is: null } },
+            { refundItem: { is: { refund: { status: { not: 'COMPLETED' } } } } }
+          ]
+        }
+      })
+
+      let transition: AppliedOrderTransition | null = null
+      if (remaining === 0) {
+        const result = await orderLifecycle.applyTransition(tx, order.id, 'REFUNDED', {
+          from: ['PAID'],
+          reason,
+          actor
+        })
+
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+
+        transition = result.transition
+      }
+
+      return { completed, transition }
+    })
+
+    if (!completion) {
+      return { success: false, error: 'Refund is no longer pending' }
+    }
+
+    const { completed: refund, transition } = completion
+
+    // Reported back rather than swallowed: the money is gone, so live licenses need an admin
+    const revocation = await orderLifecycle.revokeOrderLicenses({ id: order.id, items }, reason, actor)
+      .catch((error: unknown) => {
+        console.error('Refund license revocation error:', order.id, error)
+        return null
+      })
+
+    const unrevokedLicenseIds = revocation
+      ? revocation.failedLicenseIds
+      : items.flatMap(item => [...item.licenses.map(license => license.id), ...(item.renewalLicenseId ? [item.renewalLicenseId] : [])])
+
+    if (unrevokedLicenseIds.length > 0) {
+      await notificationService.notifyAdmins(
+        'Refunded Licenses Still Active',
+        `Order ${order.id} was refunded but ${unrevokedLicenseIds.length} license(s) could not be revoked. ` +
+          'Revoke them from the license page.',
+        { orderId: order.id, licenseIds: unrevokedLicenseIds }
+      ).catch((error: unknown) => console.error('Refund alert error:', order.id, error))
+    }
+
+    if (transition) {
+      await orderLifecycle.runSideEffects(transition)
+    } else {
+      try {
+        await notificationService.notifyOrderRefunded(order.userId, order.id, refund.amount, reason)
+      } catch (error) {
+        console.error('Partial refund notification error:', order.id, error)
+      }
+    }
+
+    return { success: true, refund, fullyRefunded: transition !== null, unrevokedLicenseIds }
+  }
+
+  /**
+   * Validate the request and record a pending refund holding the items, with
+   * the order row locked so two admins can't reserve the same items
+   */
+  private async reserveRefund(orderId: string, request: RefundRequest) {
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`
+
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: {
+          items: {
+            include: {
+              refundItem: true,
+              licenses: {
+                where: { status: { not: 'REVOKED' } },
+                select: { id: true }
+              }
+            }
+          },
+          paymentEvents: {
+            where: { status: 'PAID', processedAt: { not: null } },
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          }
+        }
+      })
+
+      if (!order) {
+        return { success: false as const, error: 'Order not found' }
+      }
+
+      if (order.status !== 'PAID') {
+        return { success: false as const, error: 'Only paid orders can be refunded' }
+      }
+
+      const refundable = order.items.filter(item => !item.refundItem)
+      const selected = request.orderItemIds
+        ? refundable.filter(item => request.orderItemIds!.includes(item.id))
+        : refundable
+
+      if (request.orderItemIds && selected.length !== new Set(request.orderItemIds).size) {
+        return { success: false as const, error: 'Some items are not part of this order or were already refunded' }
+      }
+
+      if (selected.length === 0) {
+        return { success: false as const, error: 'Nothing left to refund on this order' }
+      }
+
+      // Refund through the provider that took the payment, which may not be the current one
+      const payment = order.paymentEvents[0]
+      const provider = payment ? getPaymentProviderByName(payment.provider) : getPaymentProvider()
+
+      // The fee charged on top of the items goes back with the last of them, once
+      let paymentFee = 0
+      if (selected.length === refundable.length) {
+        const feeRefunds = await tx.refund.count({
+          where: { orderId: order.id, status: { not: 'FAILED' }, paymentFee: { gt: 0 } }
+        })
+
+        if (feeRefunds === 0) {
+          const itemsTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+          paymentFee = Math.max(order.total - itemsTotal, 0)
+        }
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          orderId: order.id,
+          amount: selected.reduce((sum, item) => sum + item.price * item.quantity, 0) + paymentFee,
+          paymentFee,
+          reason: request.reason,
+          method: provider?.supportsRefunds ? 'PROVIDER' : 'MANUAL',
+          createdById: request.adminId,
+          items: {
+            create: selected.map(item => ({
+              orderItemId: item.id,
+              amount: item.price * item.quantity
+            }))
+          }
+        },
+        include: {
+          items: true
+        }
+      })
+
+      return { success: true as const, order, selected, provider, payment, refund }
+    })
+  }
+}
+
+// Create singleton instance
+export const refundManager = new RefundManager()
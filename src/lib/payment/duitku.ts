@@ -1,15 +1,26 @@
 import crypto from 'crypto'
+import type { PaymentMethod } from '@prisma/client'
+import {
+  getAppUrl,
+  type CreatePaymentInput,
+  type CreatePaymentResult,
+  type PaymentCallback,
+  type PaymentProvider,
+  type PaymentStatus,
+  type PaymentStatusResult,
+  type RefundResult,
+} from './provider'
 
-// Duitku Configuration
+// Duitku Configuration. Credentials have no fallback: a missing key should fail loudly.
 const DUITKU_CONFIG = {
-  merchantCode: process.env.DUITKU_MERCHANT_CODE || 'DS17715',
-  apiKey: process.env.DUITKU_API_KEY || 'your-api-key',
+  merchantCode: process.env.DUITKU_MERCHANT_CODE || '',
+  apiKey: process.env.DUITKU_API_KEY || '',
   baseUrl: process.env.NODE_ENV === 'production' 
     ? 'https://passport.duitku.com/webapi/api/merchant' 
     : 'https://sandbox.duitku.com/webapi/api/merchant',
-  callbackUrl: process.env.NEXTAUTH_URL + '/api/payment/callback',
-  returnUrl: process.env.NEXTAUTH_URL + '/payment/success',
-  errorUrl: process.env.NEXTAUTH_URL + '/payment/error',
+  callbackUrl: getAppUrl() + '/api/payment/callback',
+  returnUrl: getAppUrl() + '/payment/success',
+  errorUrl: getAppUrl() + '/payment/error',
 }
 
 // Payment Methods supported by Duitku
@@ -35,9 +46,24 @@ export const PAYMENT_METHODS = {
   
   // QRIS
   'NQ': { name: 'QRIS', fee: 0 },
+
+  // Credit Card
+  'VC': { name: 'Credit Card', fee: 0 },
+}
+
+// Duitku payment code used for each checkout payment method
+export const DUITKU_PAYMENT_CODES: Record<PaymentMethod, keyof typeof PAYMENT_METHODS> = {
+  DUITKU_VA: 'VA',
+  DUITKU_EWALLET: 'OV',
+  DUITKU_QRIS: 'NQ',
+  DUITKU_CREDIT_CARD: 'VC',
 }
 
-export interface PaymentRequest {
+export function duitkuPaymentFee(method: PaymentMethod): number {
+  return PAYMENT_METHODS[DUITKU_PAYMENT_CODES[method]].fee
+}
+
+interface PaymentRequest {
   merchantOrderId: string
   paymentAmount: number
   paymentMethod: string
@@ -55,170 +81,208 @@ export interface PaymentRequest {
     lastName: string
     email: string
     phoneNumber: string
-    billingAddress: {
-      firstName: string
-      lastName: string
-      address: string
-      city: string
-      postalCode: string
-      phone: string
-      countryCode: string
-    }
   }
 }
 
-export interface PaymentResponse {
-  statusCode: string
-  statusMessage: string
-  reference: string
-  paymentUrl: string
-  vaNumber?: string
-  qrString?: string
-  amount: number
+// Transaction status codes returned by Duitku's status API
+const STATUS_CODES: Record<string, PaymentStatus> = {
+  '00': 'PAID',
+  '01': 'PENDING',
+  '02': 'FAILED',
 }
 
-// Generate signature for Duitku API
-function generateSignature(merchantCode: string, merchantOrderId: string, paymentAmount: number, apiKey: string): string {
-  const signatureString = `${merchantCode}${merchantOrderId}${paymentAmount}${apiKey}`
-  return crypto.createHash('md5').update(signatureString).digest('hex')
+function md5(data: string): string {
+  return crypto.createHash('md5').update(data).digest('hex')
 }
 
-// Create payment transaction
-export async function createPayment(paymentData: PaymentRequest): Promise<PaymentResponse> {
-  try {
-    const signature = generateSignature(
-      DUITKU_CONFIG.merchantCode,
-      paymentData.merchantOrderId,
-      paymentData.paymentAmount,
-      DUITKU_CONFIG.apiKey
-    )
-
-    const requestBody = {
-      merchantCode: DUITKU_CONFIG.merchantCode,
-      paymentAmount: paymentData.paymentAmount,
-      paymentMethod: paymentData.paymentMethod,
-      merchantOrderId: paymentData.merchantOrderId,
-      productDetails: paymentData.productDetails,
-      customerVaName: paymentData.customerVaName,
-      email: paymentData.email,
-      phoneNumber: paymentData.phoneNumber,
-      itemDetails: paymentData.itemDetails,
-      customerDetail: paymentData.customerDetail,
-      callbackUrl: DUITKU_CONFIG.callbackUrl,
-      returnUrl: DUITKU_CONFIG.returnUrl,
-      signature: signature,
-      expiryPeriod: 1440 // 24 hours in minutes
-    }
+export class DuitkuProvider implements PaymentProvider {
+  readonly name = 'duitku'
+  // Duitku has no refund API for the methods we offer; refunds are paid out manually
+  readonly supportsRefunds = false
 
-    const response = await fetch(`${DUITKU_CONFIG.baseUrl}/v2/inquiry`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
-    })
+  get merchantCode(): string {
+    return this.getCredentials().merchantCode
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
+  getPaymentFee(method: PaymentMethod): number {
+    return duitkuPaymentFee(method)
+  }
 
-    const result = await response.json()
-    
-    if (result.statusCode !== '00') {
-      throw new Error(result.statusMessage || 'Payment creation failed')
+  /**
+   * Create payment transaction
+   */
+  async createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult> {
+    const { merchantCode, apiKey } = this.getCredentials()
+    const paymentCode = DUITKU_PAYMENT_CODES[input.method]
+    const [firstName, ...lastNames] = input.customer.name.trim().split(/\s+/)
+
+    const paymentData: PaymentRequest = {
+      merchantOrderId: input.orderId,
+      paymentAmount: input.amount,
+      paymentMethod: paymentCode,
+      productDetails: input.description,
+      customerVaName: input.customer.name,
+      email: input.customer.email,
+      phoneNumber: input.customer.phone,
+      itemDetails: input.items,
+      customerDetail: {
+        firstName,
+        lastName: lastNames.join(' '),
+        email: input.customer.email,
+        phoneNumber: input.customer.phone
+      }
     }
 
-    return {
-      statusCode: result.statusCode,
-      statusMessage: result.statusMessage,
-      reference: result.reference,
-      paymentUrl: result.paymentUrl,
-      vaNumber: result.vaNumber,
-      qrString: result.qrString,
-      amount: result.amount
+    try {
+      const response = await fetch(`${DUITKU_CONFIG.baseUrl}/v2/inquiry`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          merchantCode,
+          ...paymentData,
+          callbackUrl: DUITKU_CONFIG.callbackUrl,
+          returnUrl: DUITKU_CONFIG.returnUrl,
+          signature: md5(`${merchantCode}${input.orderId}${input.amount}${apiKey}`),
+          expiryPeriod: 1440 // 24 hours in minutes
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const result = await response.json()
+      
+      if (result.statusCode !== '00') {
+        throw new Error(result.statusMessage || 'Payment creation failed')
+      }
+
+      return {
+        reference: result.reference,
+        paymentUrl: result.paymentUrl,
+        paymentCode,
+        amount: Number(result.amount),
+        vaNumber: result.vaNumber || undefined,
+        qrString: result.qrString || undefined
+      }
+    } catch (error) {
+      console.error('Duitku payment creation error:', error)
+      throw error
     }
-  } catch (error) {
-    console.error('Duitku payment creation error:', error)
-    throw error
   }
-}
 
-// Verify callback signature
-export function verifyCallback(
-  merchantCode: string,
-  amount: string,
-  merchantOrderId: string,
-  signature: string
-): boolean {
-  const expectedSignature = crypto
-    .createHash('md5')
-    .update(`${merchantCode}${amount}${merchantOrderId}${DUITKU_CONFIG.apiKey}`)
-    .digest('hex')
-  
-  return signature === expectedSignature
-}
+  /**
+   * Check transaction status
+   */
+  async getPaymentStatus(orderId: string): Promise<PaymentStatusResult> {
+    const { merchantCode, apiKey } = this.getCredentials()
 
-// Check transaction status
-export async function checkTransactionStatus(merchantOrderId: string) {
-  try {
-    const signature = crypto
-      .createHash('md5')
-      .update(`${DUITKU_CONFIG.merchantCode}${merchantOrderId}${DUITKU_CONFIG.apiKey}`)
-      .digest('hex')
-
-    const response = await fetch(`${DUITKU_CONFIG.baseUrl}/transactionStatus`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        merchantCode: DUITKU_CONFIG.merchantCode,
-        merchantOrderId: merchantOrderId,
-        signature: signature
+    try {
+      const response = await fetch(`${DUITKU_CONFIG.baseUrl}/transactionStatus`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          merchantCode,
+          merchantOrderId: orderId,
+          signature: md5(`${merchantCode}${orderId}${apiKey}`)
+        })
       })
-    })
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const result = await response.json()
+
+      return {
+        status: STATUS_CODES[result.statusCode] ?? 'PENDING',
+        reference: result.reference ?? null,
+        amount: result.amount ? Number(result.amount) : null
+      }
+    } catch (error) {
+      console.error('Transaction status check error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Verify callback signature
+   */
+  verifyCallback(payload: Record<string, string>): PaymentCallback | null {
+    const { merchantCode, amount, merchantOrderId, signature, resultCode, reference, paymentCode } = payload
+    if (!merchantCode || !amount || !merchantOrderId || !signature) {
+      return null
+    }
+
+    const expected = md5(`${merchantCode}${amount}${merchantOrderId}${this.getCredentials().apiKey}`)
+    if (expected.length !== signature.length ||
+        !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      return null
     }
 
-    return await response.json()
-  } catch (error) {
-    console.error('Transaction status check error:', error)
-    throw error
+    return {
+      orderId: merchantOrderId,
+      reference: reference || '',
+      amount: Number(amount),
+      status: resultCode === '00' ? 'PAID' : 'FAILED',
+      merchantCode,
+      paymentCode: paymentCode || null,
+      resultCode: resultCode || ''
+    }
   }
-}
 
-// Get available payment methods
-export async function getPaymentMethods(amount: number) {
-  try {
-    const datetime = new Date().toISOString().slice(0, 19).replace('T', ' ')
-    const signature = crypto
-      .createHash('md5')
-      .update(`${DUITKU_CONFIG.merchantCode}${amount}${datetime}${DUITKU_CONFIG.apiKey}`)
-      .digest('hex')
-
-    const response = await fetch(`${DUITKU_CONFIG.baseUrl}/paymentmethod/getpaymentmethod`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        merchantcode: DUITKU_CONFIG.merchantCode,
-        amount: amount,
-        datetime: datetime,
-        signature: signature
+  async refund(): Promise<RefundResult> {
+    return {
+      success: false,
+      error: 'Duitku does not support refunds through the API'
+    }
+  }
+
+  /**
+   * Get available payment methods
+   */
+  async getPaymentMethods(amount: number) {
+    try {
+      const { merchantCode, apiKey } = this.getCredentials()
+      const datetime = new Date().toISOString().slice(0, 19).replace('T', ' ')
+
+      const response = await fetch(`${DUITKU_CONFIG.baseUrl}/paymentmethod/getpaymentmethod`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          merchantcode: merchantCode,
+          amount: amount,
+          datetime: datetime,
+          signature: md5(`${merchantCode}${amount}${datetime}${apiKey}`)
+        })
       })
-    })
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const result = await response.json()
+      return result.paymentFee || []
+    } catch (error) {
+      console.error('Get payment methods error:', error)
+      return []
+    }
+  }
+
+  private getCredentials() {
+    if (!DUITKU_CONFIG.merchantCode || !DUITKU_CONFIG.apiKey) {
+      throw new Error('DUITKU_MERCHANT_CODE and DUITKU_API_KEY must be set to use Duitku')
     }
 
-    const result = await response.json()
-    return result.paymentFee || []
-  } catch (error) {
-    console.error('Get payment methods error:', error)
-    return []
+    return {
+      merchantCode: DUITKU_CONFIG.merchantCode,
+      apiKey: DUITKU_CONFIG.apiKey
+    }
   }
 }
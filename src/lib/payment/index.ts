@@ -0,0 +1,36 @@
+import { DuitkuProvider } from './duitku'
+import { MockPaymentProvider } from './mock'
+import { getPaymentProviderName, isMockPaymentAvailable, type PaymentProvider } from './provider'
+
+export * from './provider'
+export * from './verification'
+
+export const duitkuProvider = new DuitkuProvider()
+// Not registered at all in production builds
+export const mockPaymentProvider = isMockPaymentAvailable() ? new MockPaymentProvider() : null
+
+/**
+ * Provider used for new payments
+ */
+export function getPaymentProvider(): PaymentProvider {
+  return getPaymentProviderName() === 'mock' && mockPaymentProvider ? mockPaymentProvider : duitkuProvider
+}
+
+/**
+ * Provider by name, for orders paid before PAYMENT_PROVIDER was changed
+ */
+export function getPaymentProviderByName(name: string): PaymentProvider | null {
+  return [duitkuProvider, mockPaymentProvider].find(provider => provider?.name === name) ?? null
+}
+
+/**
+ * Provider that sent a callback, from its merchant code. Orders created
+ * before PAYMENT_PROVIDER was changed still call back through their own provider.
+ */
+export function getCallbackProvider(payload: Record<string, string>): PaymentProvider {
+  if (mockPaymentProvider && payload.merchantCode === mockPaymentProvider.merchantCode) {
+    return mockPaymentProvider
+  }
+
+  return duitkuProvider
+}
@@ -0,0 +1,149 @@
+import crypto from 'crypto'
+import type { PaymentMethod } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { duitkuPaymentFee } from './duitku'
+import {
+  getAppUrl,
+  type CreatePaymentInput,
+  type CreatePaymentResult,
+  type PaymentCallback,
+  type PaymentProvider,
+  type PaymentStatusResult,
+  type RefundInput,
+  type RefundResult,
+} from './provider'
+
+export type MockPaymentOutcome = 'pay' | 'fail' | 'expire'
+
+export const MOCK_MERCHANT_CODE = 'MOCK'
+
+// Result codes follow Duitku's, with 02 for payments left to expire
+const RESULT_CODES: Record<MockPaymentOutcome, string> = {
+  pay: '00',
+  fail: '01',
+  expire: '02',
+}
+
+const CALLBACK_STATUSES: Record<string, PaymentCallback['status']> = {
+  '00': 'PAID',
+  '01': 'FAILED',
+  '02': 'EXPIRED',
+}
+
+// Without a configured secret, callbacks are signed with one that lives as long as the server process
+let processSecret: string | null = null
+
+function getMockSecret(): string {
+  const configured = process.env.MOCK_PAYMENT_SECRET || process.env.NEXTAUTH_SECRET
+  if (configured) {
+    return configured
+  }
+
+  processSecret ??= crypto.randomBytes(32).toString('hex')
+  return processSecret
+}
+
+function signCallback(payload: Record<string, string>): string {
+  const { merchantCode, amount, merchantOrderId, resultCode, reference } = payload
+
+  return crypto
+    .createHmac('sha256', getMockSecret())
+    .update(`${merchantCode}${amount}${merchantOrderId}${resultCode}${reference}`)
+    .digest('hex')
+}
+
+/**
+ * Local stand-in for a payment gateway. Payments are settled from the page at
+ * /payment/mock/[orderId], which posts signed callbacks like a real gateway.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock'
+  readonly supportsRefunds = true
+  readonly merchantCode = MOCK_MERCHANT_CODE
+
+  // Charges Duitku's fees so totals in development match production
+  getPaymentFee(method: PaymentMethod): number {
+    return duitkuPaymentFee(method)
+  }
+
+  async createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult> {
+    const reference = `MOCK-${crypto.randomBytes(6).toString('hex').toUpperCase()}`
+    const digits = parseInt(crypto.createHash('sha256').update(reference).digest('hex').slice(0, 10), 16)
+
+    return {
+      reference,
+      paymentUrl: `${getAppUrl()}/payment/mock/${input.orderId}`,
+      paymentCode: input.method,
+      amount: input.amount,
+      vaNumber: input.method === 'DUITKU_VA' ? `8808${digits.toString().padStart(12, '0').slice(-12)}` : undefined,
+      qrString: input.method === 'DUITKU_QRIS' ? `MOCKQRIS|${input.orderId}|${reference}|${input.amount}` : undefined
+    }
+  }
+
+  // The mock gateway keeps no state of its own, the order is the record
+  async getPaymentStatus(orderId: string): Promise<PaymentStatusResult> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { status: true, paymentId: true, total: true }
+    })
+
+    return {
+      status: order?.status === 'PAID'
+        ? 'PAID'
+        : order?.status === 'FAILED'
+          ? 'FAILED'
+          : order?.status === 'CANCELLED' ? 'EXPIRED' : 'PENDING',
+      reference: order?.paymentId ?? null,
+      amount: order?.total ?? null
+    }
+  }
+
+  verifyCallback(payload: Record<string, string>): PaymentCallback | null {
+    const { merchantCode, amount, merchantOrderId, resultCode, reference, signature } = payload
+    if (merchantCode !== MOCK_MERCHANT_CODE || !amount || !merchantOrderId || !signature) {
+      return null
+    }
+
+    const expected = signCallback(payload)
+    if (expected.length !== signature.length ||
+        !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      return null
+    }
+
+    return {
+      orderId: merchantOrderId,
+      reference: reference || '',
+      amount: Number(amount),
+      status: CALLBACK_STATUSES[resultCode] ?? 'FAILED',
+      merchantCode,
+      paymentCode: payload.paymentCode || null,
+      resultCode: resultCode || ''
+    }
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    return {
+      success: true,
+      refundReference: `MOCK-REFUND-${input.reference}-${Date.now()}`
+    }
+  }
+
+  /**
+   * Signed callback body the mock gateway sends for an outcome
+   */
+  buildCallback(
+    order: { id: string, total: number, paymentId: string | null, paymentMethod: string },
+    outcome: MockPaymentOutcome
+  ): Record<string, string> {
+    const payload: Record<string, string> = {
+      merchantCode: MOCK_MERCHANT_CODE,
+      amount: order.total.toString(),
+      merchantOrderId: order.id,
+      paymentCode: order.paymentMethod,
+      resultCode: RESULT_CODES[outcome],
+      reference: order.paymentId || ''
+    }
+
+    return { ...payload, signature: signCallback(payload) }
+  }
+}
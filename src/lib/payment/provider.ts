@@ -0,0 +1,109 @@
+import type { PaymentMethod } from '@prisma/client'
+
+export type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED' | 'EXPIRED'
+
+export interface CreatePaymentInput {
+  orderId: string
+  amount: number // Including the payment fee
+  method: PaymentMethod
+  description: string
+  customer: {
+    name: string
+    email: string
+    phone: string
+  }
+  items: Array<{
+    name: string
+    price: number // Line total
+    quantity: number
+  }>
+}
+
+export interface CreatePaymentResult {
+  reference: string
+  paymentUrl: string
+  paymentCode: string
+  amount: number
+  vaNumber?: string
+  qrString?: string
+}
+
+export interface PaymentStatusResult {
+  status: PaymentStatus
+  reference: string | null
+  amount: number | null
+}
+
+// Callback contents once the provider has checked its signature
+export interface PaymentCallback {
+  orderId: string
+  reference: string
+  amount: number
+  status: Exclude<PaymentStatus, 'PENDING'>
+  merchantCode: string
+  paymentCode: string | null
+  resultCode: string
+}
+
+export interface RefundInput {
+  orderId: string
+  reference: string
+  amount: number
+  reason: string
+}
+
+export interface RefundResult {
+  success: boolean
+  refundReference?: string
+  error?: string
+}
+
+export interface PaymentProvider {
+  readonly name: string
+  readonly supportsRefunds: boolean
+  // Our account at the provider; callbacks for any other merchant are rejected
+  readonly merchantCode: string
+
+  /**
+   * Fee the customer pays on top of the order for a payment method
+   */
+  getPaymentFee(method: PaymentMethod): number
+  createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult>
+  getPaymentStatus(orderId: string): Promise<PaymentStatusResult>
+  /**
+   * Check a callback's signature. Returns null for forged or malformed callbacks.
+   */
+  verifyCallback(payload: Record<string, string>): PaymentCallback | null
+  refund(input: RefundInput): Promise<RefundResult>
+}
+
+export type PaymentProviderName = 'duitku' | 'mock'
+
+/**
+ * The mock gateway marks orders paid on request, so production builds never offer it
+ */
+export function isMockPaymentAvailable(): boolean {
+  return process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Provider selected by PAYMENT_PROVIDER. Development defaults to the mock
+ * gateway so checkout works without network access or Duitku credentials.
+ */
+export function getPaymentProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENT_PROVIDER?.toLowerCase()
+
+  if (configured === 'mock' && !isMockPaymentAvailable()) {
+    throw new Error('PAYMENT_PROVIDER=mock is not allowed in production')
+  }
+
+  if (configured === 'duitku' || configured === 'mock') {
+    return configured
+  }
+
+  return isMockPaymentAvailable() ? 'mock' : 'duitku'
+}
+
+export function getAppUrl(): string {
+  return process.env.NEXTAUTH_URL || 'http://localhost:3000'
+}
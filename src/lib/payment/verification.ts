@@ -0,0 +1,43 @@
+import type { OrderStatus } from '@prisma/client'
+import type { PaymentCallback, PaymentProvider } from './provider'
+
+export interface CallbackMismatch {
+  field: 'amount' | 'merchantCode' | 'orderStatus'
+  expected: string | number
+  received: string | number
+}
+
+/**
+ * Compare a signed callback with the order it settles. A valid signature only
+ * proves the provider sent it; the amount must match the order total exactly
+ * (checkout adds the payment fee to the total), the merchant must be ours and a
+ * payment may only settle an order that is still pending.
+ */
+export function findCallbackMismatches(
+  callback: PaymentCallback,
+  order: { total: number, status: OrderStatus },
+  provider: PaymentProvider
+): CallbackMismatch[] {
+  const mismatches: CallbackMismatch[] = []
+
+  if (callback.amount !== order.total) {
+    mismatches.push({ field: 'amount', expected: order.total, received: callback.amount })
+  }
+
+  if (callback.merchantCode !== provider.merchantCode) {
+    mismatches.push({ field: 'merchantCode', expected: provider.merchantCode, received: callback.merchantCode })
+  }
+
+  // Failure callbacks for settled orders are harmless and simply ignored
+  if (callback.status === 'PAID' && order.status !== 'PENDING') {
+    mismatches.push({ field: 'orderStatus', expected: 'PENDING', received: order.status })
+  }
+
+  return mismatches
+}
+
+export function describeCallbackMismatches(mismatches: CallbackMismatch[]): string {
+  return mismatches
+    .map(mismatch => `${mismatch.field} expected ${mismatch.expected}, got ${mismatch.received}`)
+    .join('; ')
+}
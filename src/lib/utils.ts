@@ -25,20 +25,24 @@ export function formatDate(date: Date | string): string {
   }).format(dateObj)
 }
 
-// Generate license key in format XXXX-XXXX-XXXX-XXXX
-export function generateLicenseKey(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
-  const segments = []
+// Expiry date for a license bought on a plan, null for lifetime plans
+export function calculatePlanExpiry(durationDays: number | null | undefined, from: Date = new Date()): Date | null {
+  if (!durationDays) return null
+  return new Date(from.getTime() + durationDays * 24 * 60 * 60 * 1000)
+}
 
-  for (let i = 0; i < 4; i++) {
-    let segment = ''
-    for (let j = 0; j < 4; j++) {
-      segment += chars.charAt(Math.floor(Math.random() * chars.length))
-    }
-    segments.push(segment)
-  }
+// End of the update window for a license bought now, null when all future updates are included
+export function calculateUpdatesUntil(updateMonths: number | null | undefined, from: Date = new Date()): Date | null {
+  if (!updateMonths) return null
+  const until = new Date(from)
+  until.setMonth(until.getMonth() + updateMonths)
+  return until
+}
 
-  return segments.join('-')
+// Human readable plan duration, e.g. "1 day", "30 days" or "Lifetime"
+export function formatPlanDuration(durationDays: number | null | undefined): string {
+  if (!durationDays) return 'Lifetime'
+  return `${durationDays} day${durationDays !== 1 ? 's' : ''}`
 }
 
 // Generate slug from string
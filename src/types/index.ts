@@ -25,10 +25,34 @@ export interface Product {
   downloadUrl?: string;
   version: string;
   compatibility: string[];
+  plans?: ProductPlan[];
+  trialDays?: number | null;
+  licenseKeySource?: 'GENERATED' | 'POOL';
+  updateMonths?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ProductPlan {
+  id: string;
+  productId: string;
+  name: string;
+  durationDays: number | null; // null for lifetime
+  price: number;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface ProductRelease {
+  id: string;
+  version: string;
+  channel: 'STABLE' | 'BETA';
+  changelog: string; // Markdown
+  fileSize: number | null;
+  sha256: string;
+  releasedAt: Date;
+}
+
 export interface ProductCategory {
   id: string;
   name: string;
@@ -44,6 +68,7 @@ export interface License {
   productId: string;
   licenseKey: string;
   status: 'ACTIVE' | 'EXPIRED' | 'SUSPENDED';
+  isTrial: boolean;
   expiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -66,15 +91,20 @@ export interface OrderItem {
   id: string;
   orderId: string;
   productId: string;
+  planId?: string;
   quantity: number;
   price: number;
+  durationDays?: number | null;
   product: Product;
+  plan?: ProductPlan;
 }
 
 export interface CartItem {
   productId: string;
+  planId?: string;
   quantity: number;
   product: Product;
+  plan?: ProductPlan;
   addedAt: string;
 }
 